@@ -0,0 +1,44 @@
+import { renderPrompt } from "./prompts.js";
+
+// Mirrors the rows seeded by the categories migration, for dry runs that have
+// no database to read them from.
+export const DEFAULT_CATEGORIES = [
+  { slug: "world", name: "World", description: "Politics, government, courts, crime, society and international affairs in India and abroad", color: "#dc2626" },
+  { slug: "profit", name: "Profit", description: "Economy, markets, banking, taxes, prices and personal finance", color: "#16a34a" },
+  { slug: "bq", name: "BQ", description: "Companies, startups, deals, earnings and industry", color: "#0d9488" },
+  { slug: "movies", name: "Movies", description: "Films, streaming, television, music and celebrities", color: "#c026d3" },
+  { slug: "cricket", name: "Cricket", description: "Cricket matches, players, teams and tournaments", color: "#2563eb" },
+  { slug: "food", name: "Food", description: "Food, recipes, restaurants and drinks", color: "#ea580c" },
+  { slug: "lifestyle", name: "Lifestyle", description: "Fashion, travel, relationships, culture, festivals and viral stories", color: "#db2777" },
+  { slug: "health", name: "Health", description: "Health, medicine, diseases, fitness and wellbeing", color: "#059669" },
+  { slug: "tech", name: "Tech", description: "Technology, gadgets, apps, the internet, science and space", color: "#7c3aed" },
+  { slug: "games", name: "Games", description: "Video games, esports and sports other than cricket", color: "#ca8a04" },
+];
+
+export async function listCategories(supabase) {
+  const { data, error } = await supabase
+    .from("categories")
+    .select("slug, name, description, color")
+    .order("position", { ascending: true });
+
+  if (error) {
+    throw new Error(`Loading categories failed: ${error.message}`);
+  }
+  return data || [];
+}
+
+export function buildCategoryPrompt(template, title, content, categories) {
+  return renderPrompt(template, {
+    title,
+    content: content.slice(0, 4000),
+    categories: categories.map((category) => `- ${category.slug}: ${category.description}`).join("\n"),
+    example: categories[0].slug,
+  });
+}
+
+// Models sometimes wrap the slug in quotes or a sentence; take the first
+// known slug mentioned.
+export function parseCategory(reply, categories) {
+  const words = reply.toLowerCase().match(/[a-z]+/g) || [];
+  return categories.find((category) => words.includes(category.slug)) || null;
+}
@@ -0,0 +1,174 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { fileURLToPath } from "node:url";
+import { parseArgs } from "node:util";
+import { loadConfig } from "./config.js";
+import { createFixtureStore } from "./fixtures.js";
+import { setScrapeRateLimit, useFixtures } from "./http.js";
+import { createSources, collectItems } from "./sources/index.js";
+
+// Replays the recorded fixture sets through the configured sources and checks
+// the listed items and extracted article text against each set's
+// expected.json, so a selector or parser change shows up before a live run.
+// Each directory under fixtures/ is one set, recorded from the live source
+// whose id it is named after.
+//
+//   node ProcessNews/checkFixtures.js                   compare every set
+//   node ProcessNews/checkFixtures.js --record [ids]    record sets from the live sources
+//   node ProcessNews/checkFixtures.js --update          rewrite expected.json from the replay
+
+const FIXTURES_DIR = fileURLToPath(new URL("./fixtures", import.meta.url));
+
+// The same shape expected.json holds: what the listing returned and the text
+// extracted from each link ("" when the page was rejected)
+async function readSource(source, count) {
+  const items = await collectItems(source, count);
+  const results = [];
+  for (const item of items) {
+    results.push({
+      title: item.title,
+      link: item.link,
+      text: await item.adapter.extractArticle(item.link),
+    });
+  }
+  return results;
+}
+
+function writeExpected(dir, name, items) {
+  const expectedFile = path.join(dir, "expected.json");
+  fs.writeFileSync(expectedFile, JSON.stringify({ source: name, items }, null, 2) + "\n");
+  console.log(`📝 [${name}] Wrote ${items.length} items to ${path.relative(process.cwd(), expectedFile)}`);
+}
+
+// Where two strings first differ, with a little context on each side
+function describeDifference(want, got) {
+  let at = 0;
+  while (at < want.length && want[at] === got[at]) at++;
+  const from = Math.max(0, at - 20);
+  return `differs at character ${at}: expected ${JSON.stringify(want.slice(from, at + 40))}, got ${JSON.stringify(got.slice(from, at + 40))}`;
+}
+
+function compareItems(expected, actual) {
+  const problems = [];
+  if (expected.length !== actual.length) {
+    problems.push(`listed ${actual.length} items, expected ${expected.length}`);
+  }
+
+  expected.forEach((want, index) => {
+    const got = actual[index];
+    if (!got) return;
+    for (const field of ["title", "link", "text"]) {
+      if (got[field] !== want[field]) {
+        problems.push(`item ${index + 1} ${field} ${describeDifference(want[field], got[field])}`);
+      }
+    }
+  });
+  return problems;
+}
+
+// Fetches the source's listing and pages from the network into a fresh set.
+// The set is built next to the old one and only replaces it once the listing
+// returned something, so an offline attempt leaves the committed set alone.
+async function recordSet(source, count) {
+  const dir = path.join(FIXTURES_DIR, source.id);
+  const draft = `${dir}.recording`;
+  fs.rmSync(draft, { recursive: true, force: true });
+
+  useFixtures({ mode: "record", store: createFixtureStore(draft) });
+  const items = await readSource(source, count);
+  if (!items.length) {
+    fs.rmSync(draft, { recursive: true, force: true });
+    return [`listed nothing from ${source.url}, no set recorded`];
+  }
+
+  const unreadable = items.filter((item) => !item.text);
+  if (unreadable.length) {
+    console.warn(`⚠️ [${source.id}] ${unreadable.length} of ${items.length} pages gave no text; check they really have no story body:`);
+    unreadable.forEach((item) => console.warn(`   - ${item.link}`));
+  }
+
+  writeExpected(draft, source.id, items);
+  fs.rmSync(dir, { recursive: true, force: true });
+  fs.renameSync(draft, dir);
+  return [];
+}
+
+async function checkSet(name, sources, { update }) {
+  const dir = path.join(FIXTURES_DIR, name);
+  const expectedFile = path.join(dir, "expected.json");
+  const source = sources.find((candidate) => candidate.id === name);
+  if (!source) {
+    return [`no enabled source with id "${name}" in the pipeline config`];
+  }
+  if (!fs.existsSync(expectedFile)) {
+    return [`missing ${path.relative(process.cwd(), expectedFile)} (record the set again with --record ${name})`];
+  }
+
+  useFixtures({ mode: "replay", store: createFixtureStore(dir) });
+  const expected = JSON.parse(fs.readFileSync(expectedFile, "utf8"));
+  const actual = await readSource(source, expected.items.length);
+
+  if (update) {
+    writeExpected(dir, name, actual);
+    return [];
+  }
+  return compareItems(expected.items, actual);
+}
+
+const { values: args, positionals: recordIds } = parseArgs({
+  options: {
+    record: { type: "boolean" },
+    update: { type: "boolean" },
+  },
+  allowPositionals: true,
+});
+let failed = false;
+
+function report(name, problems, success) {
+  if (problems.length) {
+    failed = true;
+    console.error(`❌ [${name}] ${args.record ? "Recording failed" : "Replay does not match expected.json"}:`);
+    problems.forEach((problem) => console.error(`   - ${problem}`));
+  } else if (success) {
+    console.log(success);
+  }
+}
+
+try {
+  const config = loadConfig();
+  const sources = createSources(config.sources);
+
+  if (args.record) {
+    setScrapeRateLimit(config.limits.scrapeRequestsPerMinutePerHost);
+    const selected = recordIds.length ? sources.filter((source) => recordIds.includes(source.id)) : sources;
+    if (!selected.length) {
+      throw new Error(`No enabled source with id ${recordIds.join(", ")}`);
+    }
+    fs.mkdirSync(FIXTURES_DIR, { recursive: true });
+    for (const source of selected) {
+      report(source.id, await recordSet(source, config.articles), `📼 [${source.id}] Recorded fixture set`);
+    }
+  } else {
+    // Pages come from disk, there is no host to be polite to
+    setScrapeRateLimit(0);
+
+    const sets = fs.existsSync(FIXTURES_DIR)
+      ? fs.readdirSync(FIXTURES_DIR, { withFileTypes: true })
+        .filter((entry) => entry.isDirectory())
+        .map((entry) => entry.name)
+      : [];
+    if (!sets.length) {
+      throw new Error(`No fixture sets in ${FIXTURES_DIR}; record one with --record`);
+    }
+
+    for (const name of sets) {
+      const problems = await checkSet(name, sources, { update: args.update });
+      report(name, problems, !args.update && `✅ [${name}] Replay matches expected.json`);
+    }
+  }
+} catch (error) {
+  console.error("❌ Fixture check failed:", error.message);
+  failed = true;
+}
+
+process.exit(failed ? 1 : 0);
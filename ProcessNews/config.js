@@ -0,0 +1,261 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { fileURLToPath } from "node:url";
+import { z } from "zod";
+import { PROMPT_VARIABLES, findPlaceholders } from "./prompts.js";
+import { hashTemplate } from "./provenance.js";
+import { SAFETY_CATEGORIES } from "./safety.js";
+
+// Everything a run needs besides secrets comes from pipeline.config.json,
+// optionally layered with pipeline.config.<PIPELINE_ENV>.json and then with
+// the environment variables below (kept for one-off runs and CI secrets).
+export const DEFAULT_CONFIG_FILE = fileURLToPath(new URL("./pipeline.config.json", import.meta.url));
+
+const ENV_OVERRIDES = [
+  ["TEXT_PROVIDER", "providers.text"],
+  ["IMAGE_PROVIDER", "providers.image"],
+  ["GEMINI_TEXT_MODEL", "providers.gemini.textModel"],
+  ["GEMINI_IMAGE_MODEL", "providers.gemini.imageModel"],
+  ["OPENAI_BASE_URL", "providers.openai.baseUrl"],
+  ["OPENAI_TEXT_MODEL", "providers.openai.textModel"],
+  ["OPENAI_IMAGE_MODEL", "providers.openai.imageModel"],
+  ["PIPELINE_CONCURRENCY", "limits.concurrency", Number],
+  ["TEXT_RPM", "limits.textRequestsPerMinute", Number],
+  ["IMAGE_RPM", "limits.imageRequestsPerMinute", Number],
+  ["SCRAPE_RPM_PER_HOST", "limits.scrapeRequestsPerMinutePerHost", Number],
+  ["CIRCUIT_BREAKER_THRESHOLD", "limits.circuitBreakerThreshold", Number],
+  ["CONSISTENCY_THRESHOLD", "checks.consistencyThreshold", Number],
+  ["MIN_FACT_RECALL", "checks.minFactRecall", Number],
+];
+
+const positiveInt = z.number().int().positive();
+const selectors = z.array(z.string().min(1)).nonempty();
+
+const sourceSchema = z.lazy(() =>
+  z
+    .object({
+      id: z.string().min(1),
+      name: z.string().optional(),
+      type: z.enum(["rss", "atom", "html"]),
+      url: z.string().url(),
+      enabled: z.boolean().optional(),
+      limit: positiveInt.optional(),
+      timeout: positiveInt.optional(),
+      listing: z
+        .object({
+          baseUrl: z.string().url().optional(),
+          containers: selectors.optional(),
+          titleSelectors: selectors.optional(),
+          minTitleLength: z.number().int().nonnegative().optional(),
+        })
+        .strict()
+        .optional(),
+      article: z
+        .object({
+          selectors: selectors.optional(),
+          minParagraphLength: z.number().int().nonnegative().optional(),
+          maxParagraphs: positiveInt.optional(),
+        })
+        .strict()
+        .optional(),
+      fallback: sourceSchema.optional(),
+    })
+    .strict()
+);
+
+const providerName = z.enum(["gemini", "openai", "mock"]);
+
+const promptSchema = z
+  .object({
+    file: z.string().min(1),
+    // Bump when the template changes; recorded with every article
+    version: positiveInt,
+    timeout: positiveInt.optional(),
+  })
+  .strict();
+
+// A score from the safety screen at or above its category's threshold holds
+// the article; 1 only holds the most explicit material
+const safetyThresholds = z
+  .object(Object.fromEntries(Object.keys(SAFETY_CATEGORIES).map((category) => [category, z.number().min(0).max(1)])))
+  .strict();
+
+const configSchema = z
+  .object({
+    articles: positiveInt,
+    sources: z.array(sourceSchema).nonempty(),
+    providers: z
+      .object({
+        text: providerName,
+        image: providerName,
+        gemini: z.object({ textModel: z.string().min(1), imageModel: z.string().min(1) }).strict(),
+        openai: z
+          .object({ baseUrl: z.string().url(), textModel: z.string().min(1), imageModel: z.string().min(1) })
+          .strict(),
+      })
+      .strict(),
+    headlines: z
+      .object({
+        // Alternatives tested against the pipeline's headline; 0 turns testing off
+        variants: z.number().int().nonnegative(),
+      })
+      .strict(),
+    prompts: z.object(Object.fromEntries(Object.keys(PROMPT_VARIABLES).map((name) => [name, promptSchema]))).strict(),
+    limits: z
+      .object({
+        concurrency: positiveInt,
+        textRequestsPerMinute: positiveInt,
+        imageRequestsPerMinute: positiveInt,
+        scrapeRequestsPerMinutePerHost: positiveInt,
+        circuitBreakerThreshold: positiveInt,
+      })
+      .strict(),
+    checks: z
+      .object({
+        consistencyThreshold: z.number().min(0).max(1),
+        // Share of the source's facts a rewrite must keep
+        minFactRecall: z.number().min(0).max(1),
+        maxOverlapRetries: z.number().int().nonnegative(),
+        maxSummaryLength: positiveInt,
+        rewrite: z
+          .object({
+            minWords: positiveInt,
+            maxWords: positiveInt,
+            maxSentenceWords: positiveInt,
+            maxAverageSentenceWords: positiveInt,
+            maxGrade: z.number().positive(),
+            maxRetries: z.number().int().nonnegative(),
+          })
+          .strict()
+          .refine((limits) => limits.minWords <= limits.maxWords, {
+            message: "minWords must not exceed maxWords",
+            path: ["minWords"],
+          }),
+      })
+      .strict(),
+    safety: z
+      .object({
+        // Article title and body
+        text: safetyThresholds,
+        // Prompt for the article image; stricter, since a realistic picture shows what the text only reports
+        image: safetyThresholds,
+      })
+      .strict(),
+    output: z
+      .object({
+        publishEndpoint: z.string().url(),
+        dryRunDir: z.string().min(1),
+        report: z.string().min(1),
+      })
+      .strict(),
+  })
+  .strict()
+  .superRefine((config, ctx) => {
+    const ids = new Set();
+    const visit = (source, at) => {
+      if (ids.has(source.id)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: [...at, "id"], message: `Duplicate source id "${source.id}"` });
+      }
+      ids.add(source.id);
+      if (source.fallback) visit(source.fallback, [...at, "fallback"]);
+    };
+    config.sources.forEach((source, index) => visit(source, ["sources", index]));
+  });
+
+function readJson(file) {
+  let text;
+  try {
+    text = fs.readFileSync(file, "utf8");
+  } catch (error) {
+    throw new Error(`Cannot read config file ${file}: ${error.message}`);
+  }
+  try {
+    return JSON.parse(text);
+  } catch (error) {
+    throw new Error(`Config file ${file} is not valid JSON: ${error.message}`);
+  }
+}
+
+const isPlainObject = (value) => value !== null && typeof value === "object" && !Array.isArray(value);
+
+// Objects merge key by key; arrays and scalars in the overlay replace the base
+export function mergeConfig(base, overlay) {
+  if (!isPlainObject(base) || !isPlainObject(overlay)) return overlay;
+  const merged = { ...base };
+  for (const [key, value] of Object.entries(overlay)) {
+    merged[key] = key in base ? mergeConfig(base[key], value) : value;
+  }
+  return merged;
+}
+
+function envOverlay(env) {
+  const overlay = {};
+  for (const [name, at, convert = String] of ENV_OVERRIDES) {
+    if (!env[name]) continue;
+    const keys = at.split(".");
+    let target = overlay;
+    for (const key of keys.slice(0, -1)) target = target[key] ??= {};
+    target[keys.at(-1)] = convert(env[name]);
+  }
+  return overlay;
+}
+
+function formatIssue(issue) {
+  const at = issue.path.length ? issue.path.join(".") : "(root)";
+  return `  - ${at}: ${issue.message}`;
+}
+
+// Reads each prompt's template and checks its placeholders, so a typo in a
+// template stops the run before any article is touched. The template file's
+// name is the prompt id recorded in article provenance.
+function loadPrompts(prompts, dir) {
+  const problems = [];
+  const loaded = {};
+  for (const [name, prompt] of Object.entries(prompts)) {
+    const file = path.resolve(dir, prompt.file);
+    let template;
+    try {
+      template = fs.readFileSync(file, "utf8").replace(/\s+$/, "");
+    } catch (error) {
+      problems.push(`  - prompts.${name}.file: cannot read ${prompt.file} (${error.code || error.message})`);
+      continue;
+    }
+    const unknown = findPlaceholders(template).filter((placeholder) => !PROMPT_VARIABLES[name].includes(placeholder));
+    if (unknown.length) {
+      problems.push(
+        `  - prompts.${name}.file: unknown placeholder ${unknown.map((placeholder) => `{{${placeholder}}}`).join(", ")} (available: ${PROMPT_VARIABLES[name].join(", ")})`
+      );
+    }
+    loaded[name] = { ...prompt, id: path.basename(prompt.file, path.extname(prompt.file)), hash: hashTemplate(template), template };
+  }
+  return { loaded, problems };
+}
+
+// Returns the validated config, or throws one error listing every problem.
+export function loadConfig({ file = DEFAULT_CONFIG_FILE, env = process.env } = {}) {
+  const files = [file];
+  let raw = readJson(file);
+
+  if (env.PIPELINE_ENV) {
+    const overlayFile = file.replace(/\.json$/, `.${env.PIPELINE_ENV}.json`);
+    if (!fs.existsSync(overlayFile)) {
+      throw new Error(`PIPELINE_ENV is "${env.PIPELINE_ENV}" but ${overlayFile} does not exist`);
+    }
+    raw = mergeConfig(raw, readJson(overlayFile));
+    files.push(overlayFile);
+  }
+  raw = mergeConfig(raw, envOverlay(env));
+
+  const describe = files.map((name) => path.relative(process.cwd(), name) || name).join(" + ");
+  const result = configSchema.safeParse(raw);
+  if (!result.success) {
+    throw new Error(`Invalid pipeline config (${describe}):\n${result.error.issues.map(formatIssue).join("\n")}`);
+  }
+
+  const { loaded, problems } = loadPrompts(result.data.prompts, path.dirname(file));
+  if (problems.length) {
+    throw new Error(`Invalid pipeline config (${describe}):\n${problems.join("\n")}`);
+  }
+
+  return { ...result.data, prompts: loaded, files };
+}
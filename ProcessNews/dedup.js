@@ -0,0 +1,58 @@
+import { createHash } from "node:crypto";
+import { withSupabaseRetry } from "./retry.js";
+
+const TRACKING_PARAMS = /^(utm_\w+|fbclid|gclid|ref|cmpid|mc_cid|mc_eid)$/i;
+
+// Normalises a source link so the same story reached through different feeds
+// or tracking parameters maps to one key.
+export function canonicalizeUrl(link) {
+  try {
+    const url = new URL(link.trim());
+    url.hash = "";
+    url.hostname = url.hostname.toLowerCase();
+
+    for (const key of [...url.searchParams.keys()]) {
+      if (TRACKING_PARAMS.test(key)) {
+        url.searchParams.delete(key);
+      }
+    }
+    url.searchParams.sort();
+
+    if (url.pathname.length > 1 && url.pathname.endsWith("/")) {
+      url.pathname = url.pathname.replace(/\/+$/, "");
+    }
+
+    return url.toString();
+  } catch {
+    return link.trim();
+  }
+}
+
+// Hash of the extracted source text, insensitive to case and whitespace, so a
+// story republished under a new URL is still recognised.
+export function hashContent(content) {
+  const normalized = content.toLowerCase().replace(/\s+/g, " ").trim();
+  return createHash("sha256").update(normalized).digest("hex");
+}
+
+// Returns the already-published article matching either key, or null.
+export async function findPublishedArticle(supabase, { sourceUrl, contentHash }) {
+  const lookups = [
+    ["source_url", sourceUrl],
+    ["content_hash", contentHash],
+  ].filter(([, value]) => Boolean(value));
+
+  for (const [column, value] of lookups) {
+    const { data } = await withSupabaseRetry(() => supabase
+      .from("articles")
+      .select("id, slug, source_url, content_hash")
+      .eq(column, value)
+      .limit(1), { label: `Duplicate lookup by ${column}`, message: `Duplicate lookup by ${column} failed` });
+
+    if (data?.length) {
+      return data[0];
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,242 @@
+// Heuristic fact extraction used to check that a rewrite keeps the numbers,
+// dates, names and places of its source and does not invent new ones.
+
+const MONTHS = [
+  "january", "february", "march", "april", "may", "june",
+  "july", "august", "september", "october", "november", "december",
+];
+const WEEKDAYS = ["monday", "tuesday", "wednesday", "thursday", "friday", "saturday", "sunday"];
+
+const SCALES = {
+  hundred: 1e2,
+  thousand: 1e3,
+  lakh: 1e5,
+  lakhs: 1e5,
+  million: 1e6,
+  crore: 1e7,
+  crores: 1e7,
+  billion: 1e9,
+  trillion: 1e12,
+};
+
+// Capitalised words that say nothing about who or where.
+const NAME_STOPWORDS = new Set([
+  "a", "an", "the", "this", "that", "these", "those", "he", "she", "it", "they", "we", "i", "you",
+  "his", "her", "its", "their", "our", "in", "on", "at", "for", "of", "to", "from", "by", "with",
+  "and", "but", "or", "as", "after", "before", "while", "when", "if", "however", "meanwhile",
+  "also", "according", "earlier", "later", "there", "here", "what", "who", "why", "how",
+  "mr", "mrs", "ms", "dr", "shri", "smt", "rs", "inr", "usd",
+  ...MONTHS, ...WEEKDAYS,
+]);
+
+// Titles are often dropped or reworded ("Chief Minister Rekha Gupta" ->
+// "Gupta"), so they never decide whether a name matches.
+const TITLE_WORDS = new Set([
+  "chief", "minister", "prime", "president", "vice", "deputy", "union", "state", "governor",
+  "secretary", "general", "officer", "director", "chairman", "commissioner", "inspector",
+  "superintendent", "police", "justice", "judge", "court", "leader", "spokesperson", "mp", "mla",
+  "ceo", "city", "district", "national", "new",
+]);
+
+// Words between a number and the thing it counts ("1,200 new buses").
+const COUNT_FILLERS = new Set(["new", "more", "additional", "other", "extra", "fresh", "of", "the"]);
+
+const NUMBER_PATTERN =
+  /(?:\b(rs\.?|inr|usd)\s*|([₹$€£])\s*)?(?<![\w.])(\d{1,3}(?:,\d{2,3})+(?:\.\d+)?|\d+(?:\.\d+)?)(\s*(?:%|per\s?cent|percent))?(?:\s+(hundred|thousand|lakhs?|million|crores?|billion|trillion))?((?:\s+[a-z][a-z-]+){0,3})/gi;
+// Month and weekday names only count when capitalised, so "march" and
+// "may" the verbs are left alone.
+const capitalize = (word) => word[0].toUpperCase() + word.slice(1);
+const MONTH_NAMES = MONTHS.map(capitalize).join("|");
+const DATE_PATTERN = new RegExp(
+  `\\b(?:(\\d{1,2})(?:st|nd|rd|th)?\\s+(${MONTH_NAMES})|(${MONTH_NAMES})\\s+(\\d{1,2})(?:st|nd|rd|th)?\\b|(${MONTH_NAMES}))\\b(?:,?\\s+((?:19|20)\\d{2}))?`,
+  "g",
+);
+const WEEKDAY_PATTERN = new RegExp(`\\b(${WEEKDAYS.map(capitalize).join("|")})\\b`, "g");
+const YEAR_PATTERN = /\b((?:19|20)\d{2})\b/g;
+const NAME_PATTERN = /\b[A-Z][a-zA-Z'’-]*(?:\s+(?:of\s+)?[A-Z][a-zA-Z'’-]*)*\b/g;
+
+function singular(word) {
+  return word && word.length > 3 && word.endsWith("s") && !word.endsWith("ss") ? word.slice(0, -1) : word;
+}
+
+function extractNumbers(text, dateSpans) {
+  const facts = [];
+  for (const match of text.matchAll(NUMBER_PATTERN)) {
+    const [raw, currencyCode, currencySymbol, digits, percent, scale, following] = match;
+    const start = match.index;
+    if (dateSpans.some(([from, to]) => start >= from && start < to)) continue;
+
+    const value = Number(digits.replace(/,/g, "")) * (scale ? SCALES[scale.toLowerCase()] : 1);
+    const isYear = !percent && !scale && /^(19|20)\d{2}$/.test(digits);
+    if (isYear) continue;
+
+    const noun = following.trim().toLowerCase().split(/\s+/).find((word) => word && !COUNT_FILLERS.has(word));
+    const unit = currencyCode || currencySymbol ? "money" : percent ? "%" : singular(noun) || null;
+    facts.push({
+      type: "number",
+      key: `${value}${percent ? "%" : ""}`,
+      value: raw.slice(0, raw.length - following.length).trim(),
+      context: unit,
+    });
+  }
+  return facts;
+}
+
+function extractDates(text) {
+  const facts = [];
+  const spans = [];
+
+  for (const match of text.matchAll(DATE_PATTERN)) {
+    const [raw, dayBefore, monthAfter, monthBefore, dayAfter, monthOnly, year] = match;
+    const month = (monthAfter || monthBefore || monthOnly).toLowerCase();
+    const day = dayBefore || dayAfter;
+
+    spans.push([match.index, match.index + raw.length]);
+    facts.push({
+      type: "date",
+      key: [month, day && Number(day), year].filter(Boolean).join(" "),
+      value: raw.trim(),
+      context: "month",
+    });
+  }
+
+  for (const match of text.matchAll(WEEKDAY_PATTERN)) {
+    facts.push({ type: "date", key: match[1].toLowerCase(), value: match[1], context: "weekday" });
+  }
+
+  for (const match of text.matchAll(YEAR_PATTERN)) {
+    const start = match.index;
+    if (spans.some(([from, to]) => start >= from && start < to)) continue;
+    spans.push([start, start + match[1].length]);
+    facts.push({ type: "date", key: match[1], value: match[1], context: "year" });
+  }
+
+  return { facts, spans };
+}
+
+function nameTokens(name) {
+  return name
+    .toLowerCase()
+    .replace(/['’]s$/, "")
+    .split(/[\s-]+/)
+    .filter((token) => token.length > 1 && !NAME_STOPWORDS.has(token) && !TITLE_WORDS.has(token));
+}
+
+function extractNames(text) {
+  const facts = [];
+  // Words seen in lower case are ordinary words that were capitalised only
+  // because they start a sentence.
+  const lowerWords = new Set(text.match(/\b[a-z][a-z'-]*\b/g) || []);
+  const midSentence = new Set([...text.matchAll(/[^.!?:"“\s]\s+([A-Z][a-zA-Z'’-]*)/g)].map((match) => match[1]));
+
+  for (const match of text.matchAll(NAME_PATTERN)) {
+    const words = match[0].split(/\s+/);
+    const leading = words.length;
+    while (words.length && NAME_STOPWORDS.has(words[0].toLowerCase())) words.shift();
+    if (!words.length) continue;
+
+    const name = words.join(" ");
+    if (words.length === 1) {
+      const before = text.slice(0, match.index).trimEnd();
+      const sentenceStart = words.length === leading && (!before || /[.!?:"“]$/.test(before));
+      if (lowerWords.has(name.toLowerCase()) || (sentenceStart && !midSentence.has(name))) continue;
+    }
+
+    const tokens = nameTokens(name);
+    if (!tokens.length) continue;
+    facts.push({ type: "name", key: tokens.join(" "), value: name, tokens });
+  }
+  return facts;
+}
+
+function uniqueByKey(facts) {
+  const seen = new Map();
+  for (const fact of facts) {
+    const id = `${fact.type}:${fact.key}`;
+    if (!seen.has(id)) seen.set(id, fact);
+  }
+  return [...seen.values()];
+}
+
+export function extractFacts(text = "") {
+  const { facts: dates, spans } = extractDates(text);
+  return uniqueByKey([...extractNumbers(text, spans), ...dates, ...extractNames(text)]);
+}
+
+function hasMatch(fact, others) {
+  if (fact.type !== "name") {
+    return others.some((other) => other.type === fact.type && other.key === fact.key);
+  }
+  // Names match on any shared token, so "Gupta" matches "Rekha Gupta".
+  return others.some((other) => other.type === "name" && other.tokens.some((token) => fact.tokens.includes(token)));
+}
+
+// Pairs a missing and an added fact of the same kind ("1,200 buses" vs
+// "1,500 buses", "March 12" vs "March 21") into a single changed fact.
+function pairChanges(missing, added) {
+  const changed = [];
+  const unmatchedAdded = [...added];
+
+  const stillMissing = missing.filter((fact) => {
+    if (fact.type === "name" || !fact.context) return true;
+    const index = unmatchedAdded.findIndex((other) => other.type === fact.type && other.context === fact.context);
+    if (index === -1) return true;
+    changed.push({ type: fact.type, source: fact.value, rewrite: unmatchedAdded[index].value });
+    unmatchedAdded.splice(index, 1);
+    return false;
+  });
+
+  return { missing: stillMissing, added: unmatchedAdded, changed };
+}
+
+// Facts the rewrite added or changed weigh three times as much as facts it
+// dropped: a 400–500 word rewrite has to leave details out, but it must not
+// invent them. A rewrite with few facts therefore still scores well; `recall`
+// is reported separately so dropping nearly everything can be caught too.
+const PRECISION_WEIGHT = 0.75;
+
+const round = (value) => Math.round(value * 1000) / 1000;
+
+export function checkConsistency(source, rewrite) {
+  const sourceFacts = extractFacts(source);
+  const rewriteFacts = extractFacts(rewrite);
+
+  const { missing, added, changed } = pairChanges(
+    sourceFacts.filter((fact) => !hasMatch(fact, rewriteFacts)),
+    rewriteFacts.filter((fact) => !hasMatch(fact, sourceFacts)),
+  );
+
+  const supported = rewriteFacts.length - added.length - changed.length;
+  const kept = sourceFacts.length - missing.length - changed.length;
+  const precision = rewriteFacts.length ? supported / rewriteFacts.length : 1;
+  const recall = sourceFacts.length ? kept / sourceFacts.length : 1;
+  const score = round(PRECISION_WEIGHT * precision + (1 - PRECISION_WEIGHT) * recall);
+
+  const describe = (fact) => ({ type: fact.type, value: fact.value });
+  return {
+    score,
+    precision: round(precision),
+    // Share of the source facts the rewrite kept unchanged
+    recall: round(recall),
+    sourceFacts: sourceFacts.length,
+    rewriteFacts: rewriteFacts.length,
+    keptFacts: kept,
+    missing: missing.map(describe),
+    added: added.map(describe),
+    changed,
+  };
+}
+
+export function summarizeReport(report) {
+  const parts = [];
+  if (report.changed.length) {
+    parts.push(`changed ${report.changed.map((fact) => `${fact.source} → ${fact.rewrite}`).join(", ")}`);
+  }
+  if (report.added.length) {
+    parts.push(`added ${report.added.map((fact) => fact.value).join(", ")}`);
+  }
+  if (report.missing.length) {
+    parts.push(`missing ${report.missing.length}`);
+  }
+  return parts.join("; ") || "no discrepancies";
+}
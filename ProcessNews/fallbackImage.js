@@ -0,0 +1,80 @@
+import sharp from "sharp";
+
+// Branded news card used when the image provider fails, so a good rewrite is
+// still published. Rendered locally from an SVG: no network, no API key.
+
+const WIDTH = 1200;
+const HEIGHT = 630;
+const PADDING = 80;
+const BRAND = "AutoTribune";
+const DEFAULT_COLOR = "#1e3a8a";
+const FONT = "DejaVu Sans, Arial, Helvetica, sans-serif";
+
+const HEADLINE_SIZE = 56;
+const HEADLINE_LINE_HEIGHT = 70;
+const MAX_HEADLINE_LINES = 4;
+// Average glyph width of a bold sans-serif at HEADLINE_SIZE, in pixels
+const HEADLINE_CHAR_WIDTH = 36;
+
+function escapeXml(text) {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+function wrapHeadline(title) {
+  const maxChars = Math.floor((WIDTH - PADDING * 2) / HEADLINE_CHAR_WIDTH);
+  const lines = [];
+  let line = "";
+
+  for (const word of title.trim().split(/\s+/)) {
+    const candidate = line ? `${line} ${word}` : word;
+    if (candidate.length > maxChars && line) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = candidate;
+    }
+  }
+  if (line) lines.push(line);
+
+  if (lines.length > MAX_HEADLINE_LINES) {
+    const kept = lines.slice(0, MAX_HEADLINE_LINES);
+    kept[MAX_HEADLINE_LINES - 1] = `${kept[MAX_HEADLINE_LINES - 1].replace(/[\s,;:.-]+$/, "")}…`;
+    return kept;
+  }
+  return lines;
+}
+
+function formatDate(date) {
+  return date.toLocaleDateString("en-IN", { day: "numeric", month: "long", year: "numeric" });
+}
+
+export function buildFallbackSvg({ title, category, date = new Date() }) {
+  const color = category?.color || DEFAULT_COLOR;
+  const lines = wrapHeadline(title);
+  const headlineTop = (HEIGHT - lines.length * HEADLINE_LINE_HEIGHT) / 2 + HEADLINE_SIZE;
+  const label = category?.name ? category.name.toUpperCase() : "NEWS";
+
+  const headline = lines
+    .map((line, index) => `<tspan x="${PADDING}" y="${headlineTop + index * HEADLINE_LINE_HEIGHT}">${escapeXml(line)}</tspan>`)
+    .join("");
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${WIDTH}" height="${HEIGHT}" viewBox="0 0 ${WIDTH} ${HEIGHT}">
+  <rect width="${WIDTH}" height="${HEIGHT}" fill="#0f172a"/>
+  <rect width="${WIDTH}" height="16" fill="${escapeXml(color)}"/>
+  <rect x="${PADDING}" y="64" width="${label.length * 17 + 40}" height="44" rx="6" fill="${escapeXml(color)}"/>
+  <text x="${PADDING + 20}" y="94" font-family="${FONT}" font-size="22" font-weight="bold" fill="#ffffff" letter-spacing="1">${escapeXml(label)}</text>
+  <text font-family="${FONT}" font-size="${HEADLINE_SIZE}" font-weight="bold" fill="#ffffff">${headline}</text>
+  <text x="${PADDING}" y="${HEIGHT - 64}" font-family="${FONT}" font-size="28" font-weight="bold" fill="#ffffff">${BRAND}</text>
+  <text x="${WIDTH - PADDING}" y="${HEIGHT - 64}" font-family="${FONT}" font-size="24" fill="#cbd5e1" text-anchor="end">${escapeXml(formatDate(date))}</text>
+</svg>`;
+}
+
+export async function renderFallbackImage(options) {
+  const buffer = await sharp(Buffer.from(buildFallbackSvg(options))).png().toBuffer();
+  return { buffer, mimeType: "image/png" };
+}
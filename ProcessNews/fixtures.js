@@ -0,0 +1,95 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { createHash } from "node:crypto";
+
+// Query parameters that carry credentials; never written to disk and not part
+// of the fixture key, so recordings replay with any API key.
+const SECRET_PARAMS = ["key", "api_key", "apikey", "token", "access_token"];
+
+export function redactUrl(rawUrl) {
+  try {
+    const url = new URL(rawUrl);
+    for (const param of SECRET_PARAMS) {
+      url.searchParams.delete(param);
+    }
+    return url.toString();
+  } catch {
+    return rawUrl;
+  }
+}
+
+// Fixtures live at <dir>/<host>/<hash>.json, one per distinct request
+// (method + redacted URL + body).
+export function createFixtureStore(dir) {
+  const root = path.resolve(dir);
+
+  function fileFor({ method, url, body }) {
+    const redacted = redactUrl(url);
+    const hash = createHash("sha256")
+      .update(`${method.toUpperCase()} ${redacted}\n${body ?? ""}`)
+      .digest("hex")
+      .slice(0, 16);
+    const host = new URL(redacted).host.replace(/[^a-z0-9.-]/gi, "_");
+    return path.join(root, host, `${hash}.json`);
+  }
+
+  function read(request) {
+    const file = fileFor(request);
+    if (!fs.existsSync(file)) {
+      return null;
+    }
+    return JSON.parse(fs.readFileSync(file, "utf8")).response;
+  }
+
+  function write(request, response) {
+    const file = fileFor(request);
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    const fixture = {
+      request: { method: request.method.toUpperCase(), url: redactUrl(request.url) },
+      response,
+      recorded_at: new Date().toISOString(),
+    };
+    fs.writeFileSync(file, JSON.stringify(fixture, null, 2) + "\n");
+    console.log(`📼 Recorded ${fixture.request.method} ${fixture.request.url.substring(0, 80)}`);
+  }
+
+  return { root, read, write };
+}
+
+export function missingFixtureError(method, url) {
+  const error = new Error(`No fixture recorded for ${method.toUpperCase()} ${redactUrl(url)}`);
+  error.code = "ENOFIXTURE";
+  return error;
+}
+
+// Wraps a fetch implementation (used by the Gemini SDK) so its traffic is
+// recorded or replayed like the axios instance's.
+export function wrapFetch(fetchImpl, { mode, store, passthrough = () => false }) {
+  return async (input, init = {}) => {
+    const url = typeof input === "string" ? input : input.url ?? String(input);
+    const method = init.method || input.method || "GET";
+    const body = typeof init.body === "string" ? init.body : undefined;
+    const request = { method, url, body };
+
+    if (passthrough(url)) {
+      return fetchImpl(input, init);
+    }
+
+    if (mode === "replay") {
+      const fixture = store.read(request);
+      if (!fixture) {
+        throw missingFixtureError(method, url);
+      }
+      return new Response(fixture.data, { status: fixture.status, headers: fixture.headers });
+    }
+
+    const response = await fetchImpl(input, init);
+    const data = await response.clone().text();
+    store.write(request, {
+      status: response.status,
+      headers: { "content-type": response.headers.get("content-type") || "" },
+      data,
+    });
+    return response;
+  };
+}
@@ -0,0 +1,45 @@
+import { renderPrompt } from "./prompts.js";
+import { OVERLAP_LIMITS, measureOverlap, exceedsLimits } from "./overlap.js";
+
+// Alternative headlines tested against the pipeline's own on the home page
+// (see the headline_variants migration). Like tags they are optional: an
+// unusable reply just means the article runs without a test.
+
+const MIN_WORDS = 3;
+// The prompt asks for under 10 words
+const MAX_WORDS = 9;
+
+export function buildHeadlinePrompt(template, title, content, count) {
+  return renderPrompt(template, { title, content: content.slice(0, 4000), count });
+}
+
+const normalize = (headline) => headline.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, " ").trim();
+
+// Keeps distinct, headline-sized candidates that differ from the current
+// headline and do not copy the source title any more than the title rewrite
+// may.
+export function parseHeadlines(reply, { title, sourceTitle, count }) {
+  const match = reply.match(/\[[\s\S]*\]/);
+  if (!match) return [];
+
+  let entries;
+  try {
+    entries = JSON.parse(match[0]);
+  } catch {
+    return [];
+  }
+  if (!Array.isArray(entries)) return [];
+
+  const seen = new Set([normalize(title)]);
+  const headlines = [];
+  for (const entry of entries) {
+    if (typeof entry !== "string") continue;
+    const headline = entry.trim().replace(/^["“']|["”']$/g, "").replace(/\.$/, "").trim();
+    const words = headline.split(/\s+/).filter(Boolean).length;
+    if (words < MIN_WORDS || words > MAX_WORDS || seen.has(normalize(headline))) continue;
+    if (exceedsLimits(measureOverlap(sourceTitle, headline, OVERLAP_LIMITS.title), OVERLAP_LIMITS.title)) continue;
+    seen.add(normalize(headline));
+    headlines.push(headline);
+  }
+  return headlines.slice(0, count);
+}
@@ -0,0 +1,100 @@
+import axios, { AxiosError } from "axios";
+import { DEFAULT_RETRY_POLICY, isRetryable, retryDelay, describeError, sleep } from "./retry.js";
+import { createHostLimiter } from "./limits.js";
+import { missingFixtureError } from "./fixtures.js";
+
+// Single axios instance for all pipeline HTTP traffic, so every request gets
+// the same retry policy. A request can tune it with `retry: { retries, ... }`
+// or opt out with `retry: false`.
+export const http = axios.create({
+  headers: { "User-Agent": "Mozilla/5.0" },
+});
+
+// Requests flagged with `scrape: true` (feeds, listings, article pages) share
+// a per-host token bucket so we never hammer one outlet.
+let scrapeLimiter = null;
+
+export function setScrapeRateLimit(perMinute) {
+  scrapeLimiter = perMinute ? createHostLimiter({ perMinute }) : null;
+}
+
+http.interceptors.request.use(async (config) => {
+  if (config.scrape && scrapeLimiter) {
+    await scrapeLimiter.take(new URL(config.url).host);
+  }
+  return config;
+});
+
+http.interceptors.response.use(undefined, async (error) => {
+  const config = error.config;
+  if (!config || config.retry === false) {
+    throw error;
+  }
+
+  const policy = { ...DEFAULT_RETRY_POLICY, ...config.retry };
+  const attempt = (config.retryAttempt || 0) + 1;
+  if (attempt > policy.retries || !isRetryable(error)) {
+    throw error;
+  }
+
+  const wait = retryDelay(error, attempt, policy);
+  const target = `${config.method?.toUpperCase()} ${String(config.url).split("?")[0]}`;
+  console.warn(`🔁 ${target} failed (${describeError(error)}), retry ${attempt}/${policy.retries} in ${wait}ms`);
+  await sleep(wait);
+
+  return http.request({ ...config, retryAttempt: attempt });
+});
+
+// Record/replay: in "record" mode every response is also saved to the fixture
+// store; in "replay" mode responses come from the store and nothing reaches
+// the network. `passthrough(url)` exempts requests (e.g. Supabase) from both.
+export function useFixtures({ mode, store, passthrough = () => false }) {
+  const networkAdapter = axios.getAdapter(axios.defaults.adapter);
+
+  http.defaults.adapter = async (config) => {
+    const url = axios.getUri(config);
+    const request = { method: config.method || "get", url, body: typeof config.data === "string" ? config.data : undefined };
+
+    if (passthrough(url)) {
+      return networkAdapter(config);
+    }
+
+    if (mode === "replay") {
+      const fixture = store.read(request);
+      if (!fixture) {
+        throw missingFixtureError(request.method, url);
+      }
+
+      const response = {
+        data: fixture.data,
+        status: fixture.status,
+        statusText: "",
+        headers: fixture.headers,
+        config,
+        request: {},
+      };
+      if (config.validateStatus && !config.validateStatus(response.status)) {
+        throw new AxiosError(`Request failed with status code ${response.status}`, AxiosError.ERR_BAD_RESPONSE, config, {}, response);
+      }
+      return response;
+    }
+
+    const save = (response) => store.write(request, {
+      status: response.status,
+      headers: { "content-type": response.headers?.["content-type"] || "" },
+      data: response.data,
+    });
+
+    try {
+      const response = await networkAdapter(config);
+      save(response);
+      return response;
+    } catch (error) {
+      // HTTP errors (404s, 429s...) are part of what a replay must reproduce
+      if (error.response) {
+        save(error.response);
+      }
+      throw error;
+    }
+  };
+}
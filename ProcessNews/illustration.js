@@ -0,0 +1,44 @@
+import { renderPrompt } from "./prompts.js";
+
+const MAX_ALT_LENGTH = 200;
+const MAX_CAPTION_LENGTH = 160;
+
+// Asks the text model to plan the article illustration before it is drawn,
+// so the alt text and caption describe the scene the image model was given.
+export function buildIllustrationPrompt(template, title, content) {
+  return renderPrompt(template, {
+    title,
+    content: content.slice(0, 4000),
+    maxAlt: MAX_ALT_LENGTH,
+    maxCaption: MAX_CAPTION_LENGTH,
+  });
+}
+
+function field(value, maxLength) {
+  if (typeof value !== "string") return null;
+  const text = value.trim().replace(/\s+/g, " ");
+  if (!text) return null;
+  return text.length > maxLength ? `${text.slice(0, maxLength - 1).replace(/\s+\S*$/, "")}…` : text;
+}
+
+// Returns { scene, alt, caption } or null when the reply holds no usable
+// JSON object; the image is then drawn from the article text instead.
+export function parseIllustration(reply) {
+  const match = reply.match(/\{[\s\S]*\}/);
+  if (!match) return null;
+
+  let entry;
+  try {
+    entry = JSON.parse(match[0]);
+  } catch {
+    return null;
+  }
+
+  const scene = field(entry?.scene, 1000);
+  if (!scene) return null;
+  return {
+    scene,
+    alt: field(entry.alt, MAX_ALT_LENGTH),
+    caption: field(entry.caption, MAX_CAPTION_LENGTH),
+  };
+}
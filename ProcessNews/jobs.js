@@ -0,0 +1,191 @@
+import { randomUUID } from "node:crypto";
+import { withSupabaseRetry } from "./retry.js";
+
+// Stages in processing order. `failed` is terminal for a run; the stage the
+// job had reached is kept in `last_completed_stage` so the next run resumes
+// from there instead of paying for the earlier AI calls again. `held` jobs
+// are finished but kept back for an editor, with the reason in `hold_reason`.
+export const STAGES = ["discovered", "fetched", "rewritten", "titled", "verified", "summarized", "headlined", "screened", "classified", "tagged", "imaged", "published"];
+export const FAILED = "failed";
+export const HELD = "held";
+export const MAX_ATTEMPTS = 3;
+
+export function nextStage(stage) {
+  const index = STAGES.indexOf(stage);
+  return index >= 0 && index < STAGES.length - 1 ? STAGES[index + 1] : null;
+}
+
+// The stage a job should continue from: its current stage, or for a failed
+// or held job the last stage it completed.
+export function resumeStage(job) {
+  return job.stage === FAILED || job.stage === HELD ? job.last_completed_stage : job.stage;
+}
+
+export function isResumable(job) {
+  return job.stage !== HELD && Boolean(resumeStage(job)) && job.attempts < MAX_ATTEMPTS;
+}
+
+// Every read and write goes through the shared retry policy: a dropped
+// connection or a 5xx here would otherwise fail an article whose AI work is
+// already paid for.
+export function createJobStore(supabase) {
+  // Latest unpublished job for a source URL, resumable or not.
+  async function findOpenJob(sourceUrl) {
+    const { data } = await withSupabaseRetry(() => supabase
+      .from("pipeline_jobs")
+      .select("*")
+      .eq("source_url", sourceUrl)
+      .neq("stage", "published")
+      .order("created_at", { ascending: false })
+      .limit(1), { label: "Job lookup", message: "Job lookup failed" });
+
+    return data?.[0] || null;
+  }
+
+  // A retried insert whose first attempt did land leaves an extra
+  // "discovered" job behind; the next run resumes it and the duplicate check
+  // retires it.
+  async function createJob({ sourceId, sourceUrl, sourceTitle }) {
+    const { data } = await withSupabaseRetry(() => supabase
+      .from("pipeline_jobs")
+      .insert({
+        source_id: sourceId,
+        source_url: sourceUrl,
+        source_title: sourceTitle,
+        stage: "discovered",
+      })
+      .select()
+      .single(), { label: "Job creation", message: "Job creation failed" });
+
+    return data;
+  }
+
+  // Jobs left behind by earlier runs: interrupted mid-pipeline, or failed
+  // with attempts to spare.
+  async function listResumableJobs(limit = 50) {
+    const { data } = await withSupabaseRetry(() => supabase
+      .from("pipeline_jobs")
+      .select("*")
+      .not("stage", "in", `(published,${HELD})`)
+      .lt("attempts", MAX_ATTEMPTS)
+      .order("created_at", { ascending: true })
+      .limit(limit), { label: "Listing resumable jobs", message: "Listing resumable jobs failed" });
+
+    return (data || []).filter(isResumable);
+  }
+
+  // Persists a completed stage together with its outputs and updates `job`
+  // in place so the caller can keep working with it.
+  async function saveStage(job, stage, outputs = {}) {
+    const patch = { ...outputs, stage, last_completed_stage: stage, error: null };
+    await withSupabaseRetry(() => supabase
+      .from("pipeline_jobs")
+      .update(patch)
+      .eq("id", job.id), { label: `Saving stage "${stage}"`, message: `Saving stage "${stage}" failed` });
+
+    Object.assign(job, patch);
+    return job;
+  }
+
+  // Stores outputs without advancing the stage, e.g. a title generated in
+  // parallel with a rewrite that then failed.
+  async function saveOutputs(job, outputs) {
+    await withSupabaseRetry(() => supabase
+      .from("pipeline_jobs")
+      .update(outputs)
+      .eq("id", job.id), { label: "Saving job outputs", message: "Saving job outputs failed" });
+
+    Object.assign(job, outputs);
+    return job;
+  }
+
+  // `resumable: false` marks the job as permanently done (e.g. a duplicate).
+  async function markFailed(job, message, { resumable = true } = {}) {
+    const patch = {
+      stage: FAILED,
+      error: message,
+      attempts: job.attempts + 1,
+      last_completed_stage: resumable ? resumeStage(job) : null,
+    };
+    try {
+      await withSupabaseRetry(() => supabase
+        .from("pipeline_jobs")
+        .update(patch)
+        .eq("id", job.id), { label: "Recording job failure", message: "Job update failed" });
+    } catch (error) {
+      console.error(`❌ Could not record failure for job ${job.id}:`, error.message);
+      return job;
+    }
+    Object.assign(job, patch);
+    return job;
+  }
+
+  // Keeps the job's outputs and the stage it reached, but takes it out of
+  // the queue until someone releases it with --force, which resumes it from
+  // that stage with the outputs that were reviewed.
+  async function markHeld(job, reason, outputs = {}) {
+    const patch = { ...outputs, stage: HELD, hold_reason: reason, last_completed_stage: resumeStage(job) };
+    await withSupabaseRetry(() => supabase
+      .from("pipeline_jobs")
+      .update(patch)
+      .eq("id", job.id), { label: "Holding job", message: "Holding job failed" });
+
+    Object.assign(job, patch);
+    return job;
+  }
+
+  return { findOpenJob, createJob, listResumableJobs, saveStage, saveOutputs, markFailed, markHeld };
+}
+
+// Same interface kept in memory, for dry runs that must not touch Supabase.
+// Nothing survives the process, so every dry run starts from scratch.
+export function createMemoryJobStore() {
+  const jobs = [];
+
+  async function findOpenJob(sourceUrl) {
+    return jobs.filter((job) => job.source_url === sourceUrl && job.stage !== "published").at(-1) || null;
+  }
+
+  async function createJob({ sourceId, sourceUrl, sourceTitle }) {
+    const job = {
+      id: randomUUID(),
+      source_id: sourceId,
+      source_url: sourceUrl,
+      source_title: sourceTitle,
+      stage: "discovered",
+      last_completed_stage: null,
+      attempts: 0,
+      error: null,
+      created_at: new Date().toISOString(),
+    };
+    jobs.push(job);
+    return job;
+  }
+
+  async function listResumableJobs(limit = 50) {
+    return jobs.filter((job) => job.stage !== "published" && isResumable(job)).slice(0, limit);
+  }
+
+  async function saveStage(job, stage, outputs = {}) {
+    return Object.assign(job, outputs, { stage, last_completed_stage: stage, error: null });
+  }
+
+  async function saveOutputs(job, outputs) {
+    return Object.assign(job, outputs);
+  }
+
+  async function markFailed(job, message, { resumable = true } = {}) {
+    return Object.assign(job, {
+      stage: FAILED,
+      error: message,
+      attempts: job.attempts + 1,
+      last_completed_stage: resumable ? resumeStage(job) : null,
+    });
+  }
+
+  async function markHeld(job, reason, outputs = {}) {
+    return Object.assign(job, outputs, { stage: HELD, hold_reason: reason, last_completed_stage: resumeStage(job) });
+  }
+
+  return { findOpenJob, createJob, listResumableJobs, saveStage, saveOutputs, markFailed, markHeld };
+}
@@ -0,0 +1,66 @@
+import { sleep } from "./retry.js";
+
+// Token bucket refilled continuously at `perMinute` tokens per minute.
+// Callers wait in FIFO order; a missing or zero rate means "unlimited".
+export function createTokenBucket({ name, perMinute, burst = 1 }) {
+  if (!perMinute) {
+    return { name, take: async () => {} };
+  }
+
+  const ratePerMs = perMinute / 60000;
+  let tokens = burst;
+  let last = Date.now();
+  let queue = Promise.resolve();
+
+  function refill() {
+    const now = Date.now();
+    tokens = Math.min(burst, tokens + (now - last) * ratePerMs);
+    last = now;
+  }
+
+  function take() {
+    const turn = queue.then(async () => {
+      refill();
+      if (tokens < 1) {
+        await sleep(Math.ceil((1 - tokens) / ratePerMs));
+        refill();
+      }
+      tokens -= 1;
+    });
+    queue = turn.catch(() => {});
+    return turn;
+  }
+
+  return { name, take };
+}
+
+// One bucket per host, created on first use.
+export function createHostLimiter({ perMinute, burst = 1 }) {
+  const buckets = new Map();
+
+  function take(host) {
+    if (!buckets.has(host)) {
+      buckets.set(host, createTokenBucket({ name: host, perMinute, burst }));
+    }
+    return buckets.get(host).take();
+  }
+
+  return { take };
+}
+
+// Runs `worker(item, index)` over `items` with at most `concurrency` in
+// flight. Workers stop picking up new items once `shouldStop()` is true.
+export async function runWorkerPool(items, concurrency, worker, { shouldStop = () => false } = {}) {
+  let next = 0;
+
+  async function runWorker() {
+    while (next < items.length && !shouldStop()) {
+      const index = next++;
+      await worker(items[index], index);
+    }
+  }
+
+  const size = Math.max(1, Math.min(concurrency, items.length));
+  await Promise.all(Array.from({ length: size }, runWorker));
+  return next;
+}
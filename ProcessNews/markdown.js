@@ -0,0 +1,69 @@
+// Article bodies are stored as a small Markdown subset that the site renders
+// (src/lib/markdown.ts): paragraphs separated by blank lines, "##" and "###"
+// headings, "-" and "1." lists, ">" quotes, **bold** and *italic*. Anything
+// else a model produces is rewritten into that subset or dropped.
+
+export const MARKDOWN_FORMAT_NOTE = `Format the article as Markdown: paragraphs separated by blank lines, optional "##" subheadings, "-" bullet lists and ">" quotes, and **bold** only for key names or figures. Do not include the headline, links, images, tables or HTML.`;
+
+const MAX_BOLD_HEADING_LENGTH = 80;
+
+function normalizeLine(line) {
+  let text = line.trim();
+
+  // Horizontal rules and table separators carry no content
+  if (/^([-*_])(\s*\1){2,}$/.test(text) || /^\|?[\s:|-]+\|[\s:|-]*$/.test(text)) return "";
+
+  // Table rows become plain sentences
+  if (/^\|.*\|$/.test(text)) {
+    text = text.slice(1, -1).split("|").map((cell) => cell.trim()).filter(Boolean).join(", ");
+  }
+
+  const heading = text.match(/^(#{1,6})\s+(.*?)\s*#*$/);
+  if (heading) {
+    return `${heading[1].length <= 2 ? "##" : "###"} ${heading[2]}`;
+  }
+
+  // A line that is nothing but bold text is a heading in disguise
+  const boldLine = text.match(/^\*\*([^*]+?)\*\*:?$/);
+  if (boldLine && boldLine[1].length <= MAX_BOLD_HEADING_LENGTH) {
+    return `### ${boldLine[1].replace(/:$/, "")}`;
+  }
+
+  return text
+    .replace(/^[*+•]\s+/, "- ")
+    .replace(/^(\d+)\)\s+/, "$1. ")
+    .replace(/__(.+?)__/g, "**$1**");
+}
+
+export function normalizeMarkdown(text = "") {
+  const lines = text
+    .replace(/\r\n?/g, "\n")
+    .replace(/^```.*$/gm, "")
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<[^>]+>/g, "")
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, "")
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, "$1")
+    .split("\n")
+    .map(normalizeLine);
+
+  const blocks = lines.join("\n").split(/\n{2,}/).map((block) => block.trim()).filter(Boolean);
+
+  // The headline is shown separately, so a leading heading would repeat it
+  if (blocks.length > 1 && blocks[0].startsWith("#") && !blocks[0].includes("\n")) {
+    blocks.shift();
+  }
+
+  return blocks.join("\n\n");
+}
+
+// Plain text for places that cannot render Markdown (prompts, previews).
+export function toPlainText(markdown = "") {
+  return markdown
+    .replace(/^#{1,6}\s+/gm, "")
+    .replace(/^>\s?/gm, "")
+    .replace(/^(-|\d+\.)\s+/gm, "")
+    .replace(/\*\*(.+?)\*\*/g, "$1")
+    .replace(/\*(\S.*?)\*/g, "$1")
+    .replace(/\s+/g, " ")
+    .trim();
+}
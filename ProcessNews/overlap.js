@@ -0,0 +1,78 @@
+// Measures how much of the source wording survives in a rewrite: the share of
+// the rewrite's word n-grams that also appear in the source, and the longest
+// run of words copied unchanged.
+
+export const OVERLAP_LIMITS = {
+  // 400–500 word body: 5-word shingles, at most 10% shared, no run of 12+ words
+  body: { n: 5, maxShare: 0.1, maxRun: 12 },
+  // Sub-10 word title: 3-word shingles, at most half shared, no run of 5+ words
+  title: { n: 3, maxShare: 0.5, maxRun: 5 },
+};
+
+// Copied passages quoted back to the model when re-prompting
+const MAX_PASSAGES = 5;
+
+function words(text = "") {
+  return text.toLowerCase().match(/[\p{L}\p{N}]+(?:['’][\p{L}]+)?/gu) || [];
+}
+
+function shingles(tokens, n) {
+  const result = [];
+  for (let i = 0; i + n <= tokens.length; i++) {
+    result.push(tokens.slice(i, i + n).join(" "));
+  }
+  return result;
+}
+
+// Longest common run of words, by dynamic programming over two rows.
+function longestCommonRun(a, b) {
+  let best = 0;
+  let previous = new Uint16Array(b.length + 1);
+  let current = new Uint16Array(b.length + 1);
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = a[i - 1] === b[j - 1] ? previous[j - 1] + 1 : 0;
+      if (current[j] > best) best = current[j];
+    }
+    [previous, current] = [current, previous];
+  }
+  return best;
+}
+
+// Merges the rewrite's shared n-grams into maximal copied passages.
+function copiedPassages(tokens, shared, n) {
+  const passages = [];
+  let start = -1;
+  for (let i = 0; i <= shared.length; i++) {
+    if (i < shared.length && shared[i]) {
+      if (start === -1) start = i;
+    } else if (start !== -1) {
+      passages.push(tokens.slice(start, i - 1 + n).join(" "));
+      start = -1;
+    }
+  }
+  return passages.sort((a, b) => b.length - a.length).slice(0, MAX_PASSAGES);
+}
+
+export function measureOverlap(source, text, { n = 5 } = {}) {
+  const sourceTokens = words(source);
+  const tokens = words(text);
+  const sourceShingles = new Set(shingles(sourceTokens, n));
+  const shared = shingles(tokens, n).map((shingle) => sourceShingles.has(shingle));
+  const sharedCount = shared.filter(Boolean).length;
+
+  return {
+    share: shared.length ? Math.round((sharedCount / shared.length) * 1000) / 1000 : 0,
+    longestRun: longestCommonRun(tokens, sourceTokens),
+    copied: copiedPassages(tokens, shared, n),
+  };
+}
+
+export function exceedsLimits(measurement, limits) {
+  return measurement.share > limits.maxShare || measurement.longestRun >= limits.maxRun;
+}
+
+export function describeOverlap(measurement) {
+  const run = measurement.longestRun;
+  return `${Math.round(measurement.share * 100)}% of n-grams shared, longest copied run ${run} word${run === 1 ? "" : "s"}`;
+}
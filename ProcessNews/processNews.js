@@ -1,31 +1,134 @@
-import axios from "axios";
-import * as cheerio from "cheerio";
-import * as xml2js from "xml2js";
+import { setScrapeRateLimit, useFixtures } from "./http.js";
+import { createFixtureStore, wrapFetch } from "./fixtures.js";
 import * as dotenv from "dotenv";
 dotenv.config();
-import { GoogleGenAI, Modality } from "@google/genai";
-import * as fs from "node:fs";
+import * as path from "node:path";
+import { parseArgs } from "node:util";
 import { createClient } from '@supabase/supabase-js'
+import { createSources, collectItems, findSourceForLink } from "./sources/index.js";
+import { fetchArticleTitle } from "./sources/article.js";
+import { canonicalizeUrl, hashContent } from "./dedup.js";
+import { createJobStore, createMemoryJobStore, resumeStage, isResumable, nextStage, HELD } from "./jobs.js";
+import { checkConsistency, summarizeReport } from "./facts.js";
+import { OVERLAP_LIMITS, measureOverlap, exceedsLimits, describeOverlap } from "./overlap.js";
+import { buildCategoryPrompt, parseCategory } from "./categories.js";
+import { buildTagPrompt, parseTags } from "./tags.js";
+import { buildHeadlinePrompt, parseHeadlines } from "./headlines.js";
+import { MARKDOWN_FORMAT_NOTE, normalizeMarkdown, toPlainText } from "./markdown.js";
+import { renderFallbackImage } from "./fallbackImage.js";
+import { buildIllustrationPrompt, parseIllustration } from "./illustration.js";
+import { createRenditions, createPlaceholder, describeRenditions } from "./renditions.js";
+import { createProviders } from "./providers/index.js";
+import { withRetry, createCircuitBreaker } from "./retry.js";
+import { createTokenBucket, runWorkerPool } from "./limits.js";
+import { createSupabasePublisher } from "./publishers/supabase.js";
+import { createBundlePublisher } from "./publishers/bundle.js";
+import { createRunRecorder, detectTrigger, saveRun, writeRunReport } from "./runs.js";
+import { DEFAULT_CONFIG_FILE, loadConfig } from "./config.js";
+import { renderPrompt } from "./prompts.js";
+import { recordGeneration, provenanceRows } from "./provenance.js";
+import { measureStyle, findStyleProblems, describeStyle } from "./style.js";
+import { buildSafetyPrompt, parseSafety, findFlags, describeFlags, describeScores } from "./safety.js";
+
+const { values: args } = parseArgs({
+  options: {
+    force: { type: "string", multiple: true },
+    "dry-run": { type: "boolean", default: false },
+    out: { type: "string" },
+    record: { type: "string" },
+    replay: { type: "string" },
+    trigger: { type: "string" },
+    report: { type: "string" },
+    config: { type: "string", default: DEFAULT_CONFIG_FILE },
+  },
+});
+const DRY_RUN = args["dry-run"];
 
 // Initialize clients with error handling
+let config;
 let supabase;
-let GEMINI_API_KEY;
+let providers;
+let publisher;
+// Consecutive AI failures (after retries) that abort the rest of the run
+let aiBreaker;
+// Request budgets per minute
+let textBucket;
+let imageBucket;
 
 try {
-  if (!process.env.SUPABASE_URL || !process.env.SUPABASE_SERVICE_ANON_KEY) {
-    throw new Error("Missing Supabase credentials");
+  config = loadConfig({ file: path.resolve(args.config) });
+  console.log(`⚙️ Config: ${config.files.map((file) => path.relative(process.cwd(), file)).join(" + ")}`);
+  const outDir = args.out || config.output.dryRunDir;
+
+  if (DRY_RUN) {
+    // Dry runs never create a Supabase client, so they cannot touch it
+    publisher = createBundlePublisher({ outDir });
+    console.log(`🧪 Dry run: articles will be written to "${outDir}/" instead of being published`);
+  } else {
+    if (!process.env.SUPABASE_URL || !process.env.SUPABASE_SERVICE_ANON_KEY) {
+      throw new Error("Missing Supabase credentials");
+    }
+    supabase = createClient(process.env.SUPABASE_URL, process.env.SUPABASE_SERVICE_ANON_KEY);
+    publisher = createSupabasePublisher({ supabase, endpoint: config.output.publishEndpoint });
+  }
+
+  providers = createProviders(config.providers);
+  console.log(`🤖 Text provider: ${providers.text.name} (${providers.text.model}), image provider: ${providers.image.name} (${providers.image.model})`);
+
+  if (args.trigger && !["cron", "manual"].includes(args.trigger)) {
+    throw new Error(`--trigger must be "cron" or "manual", got "${args.trigger}"`);
+  }
+  if (args.record && args.replay) {
+    throw new Error("--record and --replay cannot be used together");
   }
-  supabase = createClient(process.env.SUPABASE_URL, process.env.SUPABASE_SERVICE_ANON_KEY);
-  GEMINI_API_KEY = process.env.GEMINI_API_KEY;
-  
-  if (!GEMINI_API_KEY) {
-    console.warn("⚠️ Warning: GEMINI_API_KEY not found. AI features will be disabled.");
+  if (args.record || args.replay) {
+    const mode = args.record ? "record" : "replay";
+    const store = createFixtureStore(args.record || args.replay);
+    // Pipeline state in Supabase is live data, not something to freeze
+    const supabaseHost = process.env.SUPABASE_URL ? new URL(process.env.SUPABASE_URL).host : null;
+    const passthrough = (url) => Boolean(supabaseHost) && new URL(url).host === supabaseHost;
+
+    useFixtures({ mode, store, passthrough });
+    globalThis.fetch = wrapFetch(globalThis.fetch, { mode, store, passthrough });
+    console.log(`📼 HTTP ${mode} mode using fixtures in "${store.root}"`);
   }
+
+  aiBreaker = createCircuitBreaker({ name: "AI provider", threshold: config.limits.circuitBreakerThreshold });
+  textBucket = createTokenBucket({ name: `${providers.text.name} text`, perMinute: config.limits.textRequestsPerMinute });
+  imageBucket = createTokenBucket({ name: `${providers.image.name} image`, perMinute: config.limits.imageRequestsPerMinute });
+  // Replayed pages come from disk, there is no host to be polite to
+  setScrapeRateLimit(args.replay ? 0 : config.limits.scrapeRequestsPerMinutePerHost);
 } catch (error) {
   console.error("❌ Configuration Error:", error.message);
   process.exit(1);
 }
 
+// Provider calls wait for a token from their bucket and count towards the
+// circuit breaker. Given a `provenance` map, they record the prompt version,
+// model and token usage (summed over retries) under the task, whose prompt
+// shares its name unless `promptName` says otherwise.
+async function generateText(prompt, { provenance, promptName, ...options }) {
+  const result = await aiBreaker.call(async () => {
+    await textBucket.take();
+    return providers.text.generateText(prompt, options);
+  });
+  if (provenance) {
+    recordGeneration(provenance, options.task, config.prompts[promptName || options.task], providers.text, result);
+  }
+  return result.text;
+}
+
+async function generateImageData(prompt, provenance) {
+  const result = await aiBreaker.call(async () => {
+    await imageBucket.take();
+    return providers.image.generateImage(prompt);
+  });
+  if (provenance) {
+    recordGeneration(provenance, "image", config.prompts.image, providers.image, result);
+  }
+  return result;
+}
+
 function slugify(text) {
   try {
     if (!text || typeof text !== 'string') {
@@ -41,561 +144,766 @@ function slugify(text) {
   }
 }
 
-async function scrapeNDTV_RSS(count) {
-  try {
-    console.log("📡 Fetching RSS feed...");
-    const res = await axios.get("https://feeds.feedburner.com/ndtvnews-latest", {
-      timeout: 10000,
-      headers: { "User-Agent": "Mozilla/5.0" }
-    });
-    
-    if (!res.data) {
-      throw new Error("Empty response from RSS feed");
-    }
+// Image path and dry-run folder of a job's article: the slug plus the start of
+// the job id, so stories with the same headline never overwrite each other's
+// images.
+function articleName(job) {
+  return `${slugify(job.rewritten_title)}-${job.id.slice(0, 8)}`;
+}
 
-    const parsed = await xml2js.parseStringPromise(res.data);
-    
-    if (!parsed?.rss?.channel?.[0]?.item) {
-      throw new Error("Invalid RSS structure");
-    }
+// Appended to a prompt when an earlier attempt copied the source.
+function copiedPassagesNote(copied) {
+  if (!copied.length) return "";
+  return `\n\n**Your previous attempt copied these passages word for word. Say the same thing in completely different words:**\n${copied.map((passage) => `- "${passage}"`).join("\n")}`;
+}
 
-    const items = parsed.rss.channel[0].item;
-    const articles = items.slice(0, count)
-      .map((item) => {
-        try {
-          if (!item.title?.[0] || !item.link?.[0]) {
-            return null;
-          }
-          return {
-            title: item.title[0],
-            link: item.link[0],
-          };
-        } catch (error) {
-          console.warn("⚠️ Skipping malformed RSS item:", error.message);
-          return null;
-        }
-      })
-      .filter(Boolean);
+// Appended to the rewrite prompt when the previous draft failed the style checks.
+function styleFeedbackNote(problems) {
+  if (!problems.length) return "";
+  return `\n\n**Your previous draft did not meet the requirements. Fix these problems:**\n${problems.map((problem) => `- ${problem}`).join("\n")}`;
+}
 
-    console.log(`✅ Successfully fetched ${articles.length} articles from RSS`);
-    return articles;
-  } catch (error) {
-    if (error.code === 'ECONNABORTED') {
-      console.error("❌ RSS fetch timeout - server took too long to respond");
-    } else if (error.code === 'ENOTFOUND') {
-      console.error("❌ RSS fetch failed - network/DNS error");
-    } else {
-      console.error("❌ Error fetching RSS:", error.message);
-    }
-    return [];
+async function rewriteContent(content, { copied = [], provenance } = {}) {
+  if (!content || content.length < 50) {
+    throw new Error("Content too short for rewriting");
   }
-}
 
-async function scrapeNDTV() {
-  try {
-    console.log("🌐 Scraping NDTV website...");
-    const res = await axios.get("https://www.ndtv.com/latest", {
-      headers: { "User-Agent": "Mozilla/5.0" },
-      timeout: 15000
+  // Drafts failing the style checks are sent back with the problems listed
+  const limits = config.checks.rewrite;
+  let problems = [];
+  for (let retry = 0; retry <= limits.maxRetries; retry++) {
+    const prompt = renderPrompt(config.prompts.rewrite.template, {
+      content,
+      formatNote: MARKDOWN_FORMAT_NOTE,
+      copiedNote: copiedPassagesNote(copied),
+      feedbackNote: styleFeedbackNote(problems),
     });
 
-    if (!res.data) {
-      throw new Error("Empty response from NDTV website");
+    console.log(
+      retry
+        ? `📏 Rewriting content again to fix ${problems.length} style problem${problems.length === 1 ? "" : "s"} (${retry}/${limits.maxRetries})`
+        : `🤖 Rewriting content with ${providers.text.name} (${providers.text.model})...`
+    );
+    const rewrittenContent = normalizeMarkdown(
+      await generateText(prompt, { task: "rewrite", timeout: config.prompts.rewrite.timeout, provenance })
+    );
+
+    const report = measureStyle(rewrittenContent);
+    problems = findStyleProblems(report, limits);
+    console.log(`📏 Style check: ${describeStyle(report)}`);
+    if (!problems.length) {
+      console.log(`✅ Content rewritten successfully (${rewrittenContent.length} chars)`);
+      return rewrittenContent;
     }
+    console.warn(`⚠️ Style problems: ${problems.map((problem) => problem.split("\n")[0]).join(" ")}`);
+  }
 
-    const $ = cheerio.load(res.data);
-    const selectors = [
-      ".new_storylising_content",
-      ".storylist_container",
-      ".story_list",
-      ".lstng_pg_stry",
-      ".news_Itm",
-      "article",
-    ];
+  throw new Error(`Rewrite still fails the style checks after ${limits.maxRetries + 1} drafts: ${problems.map((problem) => problem.split("\n")[0]).join(" ")}`);
+}
 
-    for (const selector of selectors) {
-      const articles = [];
+// Stores the original image and its resized renditions, and computes the
+// inline placeholder.
+async function saveImageSet(buffer, imageName, mimeType) {
+  const imagePath = await publisher.saveImage(buffer, imageName, mimeType);
+  const renditions = await createRenditions(buffer);
+  const paths = [];
+  for (const rendition of renditions) {
+    paths.push(await publisher.saveImage(rendition.buffer, imageName, rendition.mimeType, rendition.name));
+  }
+  console.log(`🖼️ Saved ${renditions.length} renditions (${[...new Set(renditions.map((rendition) => `${rendition.name} ${rendition.width}px`))].join(", ")})`);
+  const placeholder = await createPlaceholder(buffer);
+  return { imagePath, renditions: describeRenditions(renditions, paths), placeholder };
+}
 
-      try {
-        $(selector).each((_, el) => {
-          try {
-            let title =
-              $(el).find("h2 a").text().trim() ||
-              $(el).find("h3 a").text().trim() ||
-              $(el).find(".story_title a").text().trim() ||
-              $(el).find("a").first().text().trim();
-
-            let link =
-              $(el).find("h2 a").attr("href") ||
-              $(el).find("h3 a").attr("href") ||
-              $(el).find(".story_title a").attr("href") ||
-              $(el).find("a").first().attr("href");
-
-            if (link && !link.startsWith("http")) {
-              link = `https://www.ndtv.com${link}`;
-            }
+// Scene, alt text and caption for the article image, or null when the reply
+// is unusable and the image is drawn from the article text instead.
+async function planIllustration(title, content, provenance) {
+  console.log(`🖌️ Planning illustration with ${providers.text.name}...`);
+  const reply = await generateText(buildIllustrationPrompt(config.prompts.illustration.template, title, content), {
+    task: "illustration",
+    timeout: config.prompts.illustration.timeout,
+    provenance,
+  });
+  const illustration = parseIllustration(reply);
+  if (!illustration) {
+    console.warn("⚠️ No usable illustration plan in the reply, drawing from the article text");
+  }
+  return illustration;
+}
 
-            if (title && link && title.length > 10) {
-              articles.push({ title, link });
-            }
-          } catch (error) {
-            console.warn("⚠️ Error processing article element:", error.message);
-          }
-        });
+// The prompt the image model will be given, with alt text and caption for
+// the picture. Planned ahead of the image stage so the safety screen sees
+// exactly what will be drawn.
+async function planImage(title, content, provenance) {
+  const summary = toPlainText(content);
+  if (!summary || summary.length < 50) {
+    throw new Error("Summary too short for image generation");
+  }
 
-        if (articles.length > 0) {
-          console.log(`✅ Successfully scraped ${articles.length} articles`);
-          return articles.slice(0, 5);
-        }
-      } catch (error) {
-        console.warn(`⚠️ Error with selector "${selector}":`, error.message);
-        continue;
-      }
-    }
+  const illustration = await planIllustration(title, content, provenance);
+  return {
+    prompt: renderPrompt(config.prompts.image.template, {
+      subject: illustration ? "scene" : "article summary",
+      description: illustration?.scene || summary,
+    }),
+    alt: illustration?.alt ?? null,
+    caption: illustration?.caption ?? null,
+  };
+}
 
-    return [];
-  } catch (error) {
-    if (error.code === 'ECONNABORTED') {
-      console.error("❌ NDTV scraping timeout");
-    } else if (error.code === 'ENOTFOUND') {
-      console.error("❌ NDTV scraping failed - network error");
-    } else {
-      console.error("❌ Error scraping NDTV:", error.message);
-    }
-    return [];
+async function generateImage(prompt, imageName, provenance) {
+  if (!imageName) {
+    throw new Error("Image name is required");
   }
-}
 
-async function getFullArticle(link) {
   try {
-    if (!link || typeof link !== 'string') {
-      throw new Error("Invalid article link");
+    if (!prompt) {
+      throw new Error("No image prompt cleared by the safety screen");
     }
 
-    console.log(`📄 Fetching article: ${link.substring(0, 50)}...`);
-    const res = await axios.get(link, {
-      headers: { "User-Agent": "Mozilla/5.0" },
-      timeout: 12000
-    });
+    console.log(`🎨 Generating image for: ${imageName} with ${providers.image.name} (${providers.image.model})`);
+    const { buffer, mimeType } = await generateImageData(prompt, provenance);
+    return await saveImageSet(buffer, imageName, mimeType);
+  } catch (error) {
+    console.error("❌ Image generation failed:", error.message);
+    throw error; // The caller falls back to generateFallbackImage
+  }
+}
 
-    if (!res.data) {
-      throw new Error("Empty article response");
-    }
+// Branded card with the headline, category colour and date, rendered locally
+// so an image provider failure does not throw away a finished rewrite.
+async function generateFallbackImage(title, category, imageName) {
+  console.log(`🪧 Rendering fallback image for: ${imageName}`);
+  const { buffer, mimeType } = await renderFallbackImage({ title, category });
+  const saved = await saveImageSet(buffer, imageName, mimeType);
+  return { ...saved, alt: `News card with the headline "${title}"`, caption: null };
+}
 
-    const $ = cheerio.load(res.data);
-    const paragraphs = [];
+// Scores an article ("text") or image prompt ("image") against the safety
+// categories and flags those at or above the configured thresholds. An
+// unreadable reply fails the stage: nothing is published unscreened.
+async function screenContent(kind, content, provenance) {
+  const subject = kind === "image" ? "image prompt" : "article";
+  console.log(`🛡️ Screening ${subject} with ${providers.text.name}...`);
+  const reply = await generateText(buildSafetyPrompt(config.prompts.safety.template, kind, content), {
+    task: kind === "image" ? "image_safety" : "safety",
+    promptName: "safety",
+    timeout: config.prompts.safety.timeout,
+    provenance,
+  });
 
-    const selectors = [
-      ".sp-cn.ins_storybody > p",
-      ".ins_storybody p",
-      ".story_content p",
-      ".article-content p",
-      ".content p",  
-      "p",
-    ];
+  const screening = parseSafety(reply);
+  if (!screening) {
+    throw new Error(`No usable safety scores in the reply for the ${subject}`);
+  }
+  console.log(`🛡️ Safety (${subject}): ${describeScores(screening.scores)}`);
+  return { ...screening, flags: findFlags(screening.scores, config.safety[kind]) };
+}
 
-    for (const selector of selectors) {
-      try {
-        $(selector).each((_, el) => {
-          const text = $(el).text().trim();
-          if (text.length > 50 && !text.includes("©") && !text.includes("All rights reserved")) {
-            paragraphs.push(text);
-          }
-        });
+async function rewriteTitle(content, { copied = [], provenance } = {}) {
+  if (!content || content.length < 5) {
+    throw new Error("Title content too short");
+  }
 
-        if (paragraphs.length > 3) break;
-      } catch (error) {
-        console.warn(`⚠️ Error with selector "${selector}":`, error.message);
-        continue;
-      }
-    }
+  const prompt = renderPrompt(config.prompts.title.template, { title: content, copiedNote: copiedPassagesNote(copied) });
 
-    const content = paragraphs.slice(0, 8).join("\n\n");
-    
-    if (content.length < 100) {
-      throw new Error("Article content too short");
+  try {
+    console.log(`✏️ Rewriting title with ${providers.text.name}...`);
+    const newTitle = (await generateText(prompt, { task: "title", timeout: config.prompts.title.timeout, provenance })).trim();
+
+    if (newTitle.length < 5) {
+      throw new Error("Generated title too short");
     }
 
-    console.log(`✅ Article content extracted (${content.length} chars)`);
-    return content;
+    console.log(`✅ Title rewritten: "${newTitle}"`);
+    return newTitle;
   } catch (error) {
-    if (error.code === 'ECONNABORTED') {
-      console.error("⚠️ Article fetch timeout:", link);
-    } else if (error.code === 'ENOTFOUND') {
-      console.error("⚠️ Article fetch network error:", link);
-    } else {
-      console.error("⚠️ Error fetching article:", error.message);
+    throw new Error(`Title rewrite error: ${error.message}`);
+  }
+}
+
+async function summarizeArticle(title, content, provenance) {
+  const prompt = renderPrompt(config.prompts.summary.template, { title, content });
+  const maxLength = config.checks.maxSummaryLength;
+
+  console.log(`🧾 Summarizing with ${providers.text.name}...`);
+  const summary = (await generateText(prompt, { task: "summary", timeout: config.prompts.summary.timeout, provenance }))
+    .trim()
+    .replace(/^["“]|["”]$/g, "");
+
+  if (summary.length < 20) {
+    throw new Error("Generated summary too short");
+  }
+  if (summary.length > maxLength) {
+    // Keep whole sentences rather than cutting mid-word
+    let kept = "";
+    for (const sentence of summary.match(/[^.!?]+[.!?]+/g) || []) {
+      if ((kept + sentence).length > maxLength) break;
+      kept += sentence;
+    }
+    if (!kept) {
+      throw new Error("Generated summary too long");
     }
-    return "";
+    return kept.trim();
   }
+
+  console.log(`✅ Summary: "${summary}"`);
+  return summary;
 }
 
-async function rewriteWithGemini(content) {
-  if (!GEMINI_API_KEY) {
-    throw new Error("Gemini API key not available - content rewriting required");
+// Alternatives to the rewritten title for the home page headline test, or []
+// when testing is off or the reply is unusable.
+async function generateHeadlines(title, sourceTitle, content, provenance) {
+  const count = config.headlines.variants;
+  if (!count) return [];
+
+  console.log(`📰 Writing ${count} headline variants with ${providers.text.name}...`);
+  const reply = await generateText(buildHeadlinePrompt(config.prompts.headlines.template, title, content, count), {
+    task: "headlines",
+    timeout: config.prompts.headlines.timeout,
+    provenance,
+  });
+  const headlines = parseHeadlines(reply, { title, sourceTitle, count });
+  if (!headlines.length) {
+    console.warn("⚠️ No usable headline variants in the reply, publishing without a headline test");
+    return [];
   }
+  console.log(`✅ Headline variants: ${headlines.map((headline) => `"${headline}"`).join(", ")}`);
+  return headlines;
+}
 
-  if (!content || content.length < 50) {
-    throw new Error("Content too short for rewriting");
+// Returns the category slug, or null when the reply names no known category:
+// an uncategorised article is still worth publishing.
+async function classifyArticle(title, content, categories, provenance) {
+  if (!categories.length) return null;
+
+  console.log(`🗂️ Classifying with ${providers.text.name}...`);
+  const reply = await generateText(buildCategoryPrompt(config.prompts.category.template, title, content, categories), {
+    task: "category",
+    timeout: config.prompts.category.timeout,
+    choices: categories.map((category) => category.slug),
+    provenance,
+  });
+
+  const category = parseCategory(reply, categories);
+  if (!category) {
+    console.warn(`⚠️ Unrecognised category "${reply.trim().substring(0, 40)}", publishing uncategorised`);
+    return null;
   }
+  console.log(`✅ Category: ${category.name}`);
+  return category.slug;
+}
 
-  const url = `https://generativelanguage.googleapis.com/v1beta/models/gemini-2.0-flash:generateContent?key=${GEMINI_API_KEY}`;
-  const prompt = `**Role:** You are a neutral and objective news editor.
-**Task:** Rewrite the following news article into a factual report of a new news agency in 400 words.
-**Audience:** A general reader who wants to understand the key facts quickly.
-**Instructions:**
-1. Focus exclusively on the core facts: who, what, when, where, and why.
-2. Remove all opinion, speculation, promotional language, and irrelevant details.
-3. Write in a clear, professional, and objective tone.
-4. Do not copy sentences verbatim from the original article. Paraphrase everything.
-5. Begin with a single sentence that summarizes the most important information.
-6. What we are doing is feeding you already present news and your work is to transform into a non copyrightable content for someone else
-7. Most Important: make content large 400-500 words
-
-**Article to process:**
-"${content}"`;
+// Like categories, tags are optional: an unusable reply yields no tags.
+async function extractTags(title, content, provenance) {
+  console.log(`🏷️ Extracting tags with ${providers.text.name}...`);
+  const reply = await generateText(buildTagPrompt(config.prompts.tags.template, title, content), {
+    task: "tags",
+    timeout: config.prompts.tags.timeout,
+    provenance,
+  });
+  const tags = parseTags(reply);
+  if (!tags.length) {
+    console.warn("⚠️ No usable tags in the reply, publishing without tags");
+    return [];
+  }
+  console.log(`✅ Tags: ${tags.map((tag) => tag.name).join(", ")}`);
+  return tags;
+}
 
-  try {
-    console.log("🤖 Rewriting content with Gemini...");
-    const res = await axios.post(
-      url,
-      {
-        contents: [{ parts: [{ text: prompt }] }],
-      },
-      {
-        headers: { "Content-Type": "application/json" },
-        timeout: 30000
-      }
-    );
+// Measures how much source wording the body and title kept and re-prompts
+// for whichever part is over the limits. Each new draft is saved on the job
+// straight away so a later failure does not pay for it again.
+async function reduceOverlap(job, jobs, provenance) {
+  const measure = () => ({
+    body: measureOverlap(job.source_content, job.rewritten_content, OVERLAP_LIMITS.body),
+    title: measureOverlap(job.source_title, job.rewritten_title, OVERLAP_LIMITS.title),
+  });
 
-    if (!res.data?.candidates?.[0]?.content?.parts?.[0]?.text) {
-      throw new Error("Invalid response structure from Gemini API");
-    }
+  let report = measure();
+  for (let retry = 1; retry <= config.checks.maxOverlapRetries; retry++) {
+    const bodyTooHigh = exceedsLimits(report.body, OVERLAP_LIMITS.body);
+    const titleTooHigh = exceedsLimits(report.title, OVERLAP_LIMITS.title);
+    if (!bodyTooHigh && !titleTooHigh) break;
 
-    const rewrittenContent = res.data.candidates[0].content.parts[0].text;
-    
-    if (rewrittenContent.length < 100) {
-      throw new Error("Generated content too short");
+    console.log(`📋 Too close to the source (body: ${describeOverlap(report.body)}; title: ${describeOverlap(report.title)}), rewriting again (${retry}/${config.checks.maxOverlapRetries})`);
+    const outputs = {};
+    if (bodyTooHigh) {
+      outputs.rewritten_content = await rewriteContent(job.source_content, { copied: report.body.copied, provenance });
     }
-
-    console.log(`✅ Content rewritten successfully (${rewrittenContent.length} chars)`);
-    return rewrittenContent;
-  } catch (error) {
-    if (error.code === 'ECONNABORTED') {
-      throw new Error("Gemini API timeout");
-    } else if (error.response?.status === 429) {
-      throw new Error("Gemini API rate limit exceeded");
-    } else if (error.response?.status === 403) {
-      throw new Error("Gemini API authentication failed");
-    } else {
-      throw new Error(`Gemini API error: ${error.response?.data || error.message}`);
+    if (titleTooHigh) {
+      outputs.rewritten_title = await rewriteTitle(job.source_title, { copied: report.title.copied, provenance });
     }
+    await jobs.saveOutputs(job, { ...outputs, provenance });
+    report = measure();
   }
+
+  const tooHigh = exceedsLimits(report.body, OVERLAP_LIMITS.body) || exceedsLimits(report.title, OVERLAP_LIMITS.title);
+  const summary = `body: ${describeOverlap(report.body)}; title: ${describeOverlap(report.title)}`;
+  console.log(`📋 Overlap check: ${summary}`);
+  return { score: report.body.share, report, tooHigh, summary };
 }
 
-async function generateImage(summary, imageName) {
-  if (!GEMINI_API_KEY) {
-    throw new Error("Gemini API key not available - image generation required");
+// Runs a job forward from the stage it has reached. Every completed stage is
+// saved before the next one starts, so a failure only loses the stage that
+// was in progress. Returns "published", "skipped" (duplicate content) or
+// "held" (kept back for review).
+// Time spent on each stage, including a failed attempt, is added to `timings`.
+async function processJob(job, adapter, jobs, { force = false, timings = {}, categories = [] } = {}) {
+  let stage = resumeStage(job);
+  // Saved with every stage that calls a model, see provenance.js
+  const provenance = { ...job.provenance };
+  if (stage !== "discovered") {
+    console.log(`♻️ Resuming from stage "${stage}" (attempt ${job.attempts + 1})`);
   }
 
-  if (!summary || summary.length < 50) {
-    throw new Error("Summary too short for image generation");
-  }
+  while (stage !== "published") {
+    const target = nextStage(stage);
+    const stageStartedAt = Date.now();
 
-  if (!imageName) {
-    throw new Error("Image name is required");
-  }
+    try {
+      switch (stage) {
+        case "discovered": {
+          const content = await adapter.extractArticle(job.source_url);
+          if (!content || content.length < 100) {
+            throw new Error("Content too short or unavailable");
+          }
 
-  try {
-    console.log(`🎨 Generating image for: ${imageName}`);
-    const ai = new GoogleGenAI({});
-    const contents = `Create a high-quality, realistic news graphic image for the following article summary. The image should be visually appealing and contextually relevant, using realistic textures, natural lighting, and news-style visuals (not cartoons or abstract). Avoid text in the image.\n\n${summary}`;
-
-    
-    const response = await ai.models.generateContent({
-      model: "gemini-2.0-flash-preview-image-generation",
-      contents: contents,
-      config: {
-        responseModalities: [Modality.TEXT, Modality.IMAGE],
-      },
-    });
+          const contentHash = hashContent(content);
+          if (!force) {
+            const existing = await publisher.findPublished({ contentHash });
+            if (existing) {
+              console.log(`⏭️ Skipping – same story already published as "${existing.slug}".`);
+              await jobs.markFailed(job, `Duplicate of ${existing.slug}`, { resumable: false });
+              return "skipped";
+            }
+          }
 
-    if (!response?.candidates?.[0]?.content?.parts) {
-      throw new Error("Invalid image generation response");
-    }
+          await jobs.saveStage(job, "fetched", { source_content: content, content_hash: contentHash });
+          break;
+        }
+
+        case "fetched": {
+          // The title only depends on the source title, so it is generated
+          // alongside the body instead of after it.
+          const [content, title] = await Promise.allSettled([
+            rewriteContent(job.source_content, { provenance }),
+            job.rewritten_title || rewriteTitle(job.source_title, { provenance }),
+          ]);
+          const titleOutput = title.status === "fulfilled" ? { rewritten_title: title.value } : {};
+
+          if (content.status === "rejected") {
+            if (titleOutput.rewritten_title && !job.rewritten_title) {
+              await jobs.saveOutputs(job, { ...titleOutput, provenance });
+            }
+            throw content.reason;
+          }
 
-    let buffer;
-    let imageGenerated = false;
-
-    for (const part of response.candidates[0].content.parts) {
-      if (part.text) {
-        console.log("📝 Image generation context:", part.text.substring(0, 100) + "...");
-      } else if (part.inlineData) {
-        try {
-          const imageData = part.inlineData.data;
-          if (!imageData) {
-            throw new Error("No image data received");
+          await jobs.saveStage(job, "rewritten", { rewritten_content: content.value, ...titleOutput, provenance });
+          if (title.status === "rejected") {
+            throw title.reason;
           }
+          break;
+        }
+
+        case "rewritten": {
+          const newTitle = job.rewritten_title || await rewriteTitle(job.source_title, { provenance });
+          console.log(`📝 Title: "${newTitle}"`);
+          await jobs.saveStage(job, "titled", { rewritten_title: newTitle, provenance });
+          break;
+        }
+
+        case "titled": {
+          const overlap = await reduceOverlap(job, jobs, provenance);
+          if (overlap.tooHigh) {
+            // Not even --force publishes copied wording.
+            const reason = `Verbatim overlap still too high after ${config.checks.maxOverlapRetries} rewrites: ${overlap.summary}`;
+            console.log(`✋ Holding for review – ${reason}`);
+            await jobs.markHeld(job, reason, { overlap_score: overlap.score, overlap_report: overlap.report });
+            return "held";
+          }
+
+          const report = checkConsistency(job.source_content, job.rewritten_content);
+          const outputs = {
+            overlap_score: overlap.score,
+            overlap_report: overlap.report,
+            consistency_score: report.score,
+            consistency_report: report,
+          };
+          console.log(`🔎 Fact check: ${report.score} (${summarizeReport(report)})`);
 
-          buffer = Buffer.from(imageData, "base64");
-          
-          // Save locally as backup
-          fs.writeFileSync("gemini-native-image.png", buffer);
-          console.log("💾 Image saved locally as backup");
-          imageGenerated = true;
-
-          async function uploadToSupaBase() {
-            try {
-              if (!supabase) {
-                throw new Error("Supabase client not initialized");
-              }
-
-              console.log(`☁️ Uploading image to Supabase: ${imageName}.png`);
-              const { data, error } = await supabase.storage
-                .from('images')
-                .upload(`${imageName}.png`, buffer, {
-                  contentType: 'image/png',
-                  upsert: true,
-                });
-              
-              if (error) {
-                throw new Error(`Supabase upload failed: ${error.message}`);
-              }
-
-              // Create signed URL with long expiry
-              const { data: signedUrlData, error: urlError } = await supabase.storage
-                .from("images")
-                .createSignedUrl(`${imageName}.png`, 2147483647);
-
-              if (urlError) {
-                throw new Error(`Signed URL creation failed: ${urlError.message}`);
-              }
-
-              if (!signedUrlData?.signedUrl) {
-                throw new Error("No signed URL received");
-              }
-
-              console.log(`✅ Image uploaded successfully: ${signedUrlData.signedUrl.substring(0, 50)}...`);
-              return signedUrlData.signedUrl;
-            } catch (error) {
-              console.error("❌ Supabase upload error:", error.message);
-              throw error;
+          let reason = null;
+          if (report.score < config.checks.consistencyThreshold) {
+            reason = `Consistency score ${report.score} below ${config.checks.consistencyThreshold}: ${summarizeReport(report)}`;
+          } else if (report.recall < config.checks.minFactRecall) {
+            reason = `Only ${report.keptFacts} of ${report.sourceFacts} source facts kept (recall ${report.recall} below ${config.checks.minFactRecall}): ${summarizeReport(report)}`;
+          }
+          if (reason) {
+            if (!force) {
+              console.log(`✋ Holding for review – ${reason}`);
+              await jobs.markHeld(job, reason, outputs);
+              return "held";
             }
+            console.warn(`⚠️ Publishing anyway (--force): ${reason}`);
           }
 
-          const url = await uploadToSupaBase();
-          return url;
-        } catch (error) {
-          console.error("❌ Error processing image data:", error.message);
-          throw error;
+          await jobs.saveStage(job, "verified", outputs);
+          break;
         }
-      }
-    }
 
-    if (!imageGenerated) {
-      throw new Error("No image was generated in the response");
-    }
+        case "verified": {
+          const summary = await summarizeArticle(job.rewritten_title, job.rewritten_content, provenance);
+          await jobs.saveStage(job, "summarized", { summary, provenance });
+          break;
+        }
 
-  } catch (error) {
-    console.error("❌ Image generation failed:", error.message);
-    throw error; // Re-throw to fail the entire process
-  }
-}
+        case "summarized": {
+          const headlines = await generateHeadlines(job.rewritten_title, job.source_title, job.rewritten_content, provenance);
+          await jobs.saveStage(job, "headlined", { headline_variants: headlines, provenance });
+          break;
+        }
 
-async function rewriteTitle(content) {
-  if (!GEMINI_API_KEY) {
-    throw new Error("Gemini API key not available - title rewriting required");
-  }
+        case "headlined": {
+          // Everything readers see: the headline and its test variants, the
+          // summary on cards and in meta descriptions, and the body. A held
+          // job released with --force keeps the screening and image prompt
+          // that were reviewed.
+          const articleText = [job.rewritten_title, ...(job.headline_variants || []), job.summary, job.rewritten_content]
+            .filter(Boolean)
+            .join("\n\n");
+          const text = job.safety_report?.text || await screenContent("text", articleText, provenance);
+          if (text.flags.length) {
+            const reason = `Safety screen flagged the article for ${describeFlags(text.flags)}: ${text.reason}`;
+            if (!force) {
+              console.log(`✋ Holding for review – ${reason}`);
+              await jobs.markHeld(job, reason, { safety_report: { text }, provenance });
+              return "held";
+            }
+            console.warn(`⚠️ Publishing anyway (--force): ${reason}`);
+          }
 
-  if (!content || content.length < 5) {
-    throw new Error("Title content too short");
-  }
+          const plan = job.image_prompt
+            ? { prompt: job.image_prompt, alt: job.image_alt, caption: job.image_caption }
+            : await planImage(job.rewritten_title, job.rewritten_content, provenance);
+          const image = (job.image_prompt && job.safety_report?.image) || await screenContent("image", plan.prompt, provenance);
+          const outputs = {
+            safety_report: { text, image },
+            image_prompt: plan.prompt,
+            image_alt: plan.alt,
+            image_caption: plan.caption,
+            provenance,
+          };
+          if (image.flags.length) {
+            const reason = `Safety screen flagged the image prompt for ${describeFlags(image.flags)}: ${image.reason}`;
+            if (!force) {
+              console.log(`✋ Holding for review – ${reason}`);
+              await jobs.markHeld(job, reason, outputs);
+              return "held";
+            }
+            // Not even --force draws a flagged prompt; the article gets the news card
+            console.warn(`⚠️ Publishing with the news card instead (--force): ${reason}`);
+            outputs.image_prompt = null;
+          }
 
-  const url = `https://generativelanguage.googleapis.com/v1beta/models/gemini-2.0-flash:generateContent?key=${GEMINI_API_KEY}`;
-  const prompt = `**Task:** Your job is to rewrite the title to remove the plagiarism or risk of getting copyright. Give only one under 10 words.
-  **Title to process:**
-"${content}"`;
+          await jobs.saveStage(job, "screened", outputs);
+          break;
+        }
 
-  try {
-    console.log("✏️ Rewriting title with Gemini...");
-    const res = await axios.post(
-      url,
-      {
-        contents: [{ parts: [{ text: prompt }] }],
-      },
-      {
-        headers: { "Content-Type": "application/json" },
-        timeout: 15000
-      }
-    );
+        case "screened": {
+          const category = await classifyArticle(job.rewritten_title, job.rewritten_content, categories, provenance);
+          await jobs.saveStage(job, "classified", { category_slug: category, provenance });
+          break;
+        }
 
-    if (!res.data?.candidates?.[0]?.content?.parts?.[0]?.text) {
-      throw new Error("Invalid title rewrite response");
-    }
+        case "classified": {
+          const tags = await extractTags(job.rewritten_title, job.rewritten_content, provenance);
+          await jobs.saveStage(job, "tagged", { tags, provenance });
+          break;
+        }
 
-    const newTitle = res.data.candidates[0].content.parts[0].text.trim();
-    
-    if (newTitle.length < 5) {
-      throw new Error("Generated title too short");
-    }
+        case "tagged": {
+          const imageName = articleName(job);
+          let image;
+          let imageFallback = false;
+          try {
+            image = {
+              ...(await generateImage(job.image_prompt, imageName, provenance)),
+              alt: job.image_alt,
+              caption: job.image_caption,
+            };
+            console.log(`🖼️ Image: ${image.imagePath ? 'Generated successfully' : 'Failed'}`);
+          } catch {
+            // The card uses neither the illustration plan nor an image model
+            delete provenance.illustration;
+            delete provenance.image;
+            const category = categories.find((entry) => entry.slug === job.category_slug);
+            image = await generateFallbackImage(job.rewritten_title, category, imageName);
+            imageFallback = true;
+            console.log("🖼️ Image: Fallback card, flagged for regeneration");
+          }
+          await jobs.saveStage(job, "imaged", {
+            image_path: image.imagePath,
+            image_renditions: image.renditions,
+            image_placeholder: image.placeholder,
+            image_fallback: imageFallback,
+            image_alt: image.alt,
+            image_caption: image.caption,
+            provenance,
+          });
+          break;
+        }
 
-    console.log(`✅ Title rewritten: "${newTitle}"`);
-    return newTitle;
-  } catch (error) {
-    if (error.code === 'ECONNABORTED') {
-      throw new Error("Title rewrite timeout");
-    } else {
-      throw new Error(`Title rewrite error: ${error.response?.data || error.message}`);
+        case "imaged": {
+          // Upload to database only once content, title and image all exist
+          const result = await publisher.publish({
+            slug: articleName(job),
+            text: job.rewritten_content,
+            title: job.rewritten_title,
+            summary: job.summary,
+            imagePath: job.image_path,
+            imageRenditions: job.image_renditions,
+            imagePlaceholder: job.image_placeholder,
+            imageFallback: job.image_fallback,
+            imageAlt: job.image_alt,
+            imageCaption: job.image_caption,
+            sourceId: job.source_id,
+            sourceUrl: job.source_url,
+            contentHash: job.content_hash,
+            overlapScore: job.overlap_score,
+            consistencyScore: job.consistency_score,
+            category: job.category_slug,
+            tags: job.tags || [],
+            headlineVariants: job.headline_variants || [],
+            provenance: provenanceRows(job.provenance),
+            jobId: job.id,
+          });
+          await jobs.saveStage(job, "published", { article_id: result.article?.id ?? null });
+          break;
+        }
+
+        default:
+          throw new Error(`Unknown pipeline stage "${stage}"`);
+      }
+    } finally {
+      if (target) {
+        timings[target] = (timings[target] || 0) + Date.now() - stageStartedAt;
+      }
     }
+
+    stage = job.stage;
   }
+
+  return "published";
 }
 
-async function uploadToDB(output) {
-  try {
-    if (!output?.title || !output?.text) {
-      throw new Error("Missing required fields for database upload");
-    }
+async function main(count, options = {}) {
+  console.log("🚀 Starting news pipeline with fail-fast approach...");
 
-    console.log(`💾 Uploading to database: "${output.title.substring(0, 30)}..."`);
-    const res = await axios.post(
-      "https://oyxprqbvhfpbzvtohqjv.supabase.co/functions/v1/publish-article",
-      {
-        title: output.title,
-        text: output.text,
-        image_link: output.image || null,
-      },
-      {
-        timeout: 10000,
-        headers: { "Content-Type": "application/json" }
-      }
-    );
+  const recorder = createRunRecorder({ trigger: options.trigger || detectTrigger() });
+  const { run } = recorder;
+  console.log(`🧾 Run ${run.id} (${run.trigger})`);
 
-    if (!res.data?.success) {
-      throw new Error("Database upload failed - no success confirmation");
-    }
+  // Links passed with --force bypass the duplicate check and are processed
+  // even when they have dropped out of the source listings.
+  const forced = new Set((options.force || []).map(canonicalizeUrl));
+  const jobs = DRY_RUN ? createMemoryJobStore() : createJobStore(supabase);
 
-    console.log("✅ Successfully uploaded to database");
-    return res.data;
-  } catch (error) {
-    if (error.code === 'ECONNABORTED') {
-      console.error("❌ Database upload timeout");
-    } else if (error.response?.status === 400) {
-      console.error("❌ Database upload failed - bad request:", error.response.data);
-    } else if (error.response?.status === 500) {
-      console.error("❌ Database upload failed - server error");
-    } else {
-      console.error("❌ Database upload error:", error.response?.data || error.message);
+  try {
+    const sources = createSources(config.sources);
+    if (!sources.length) {
+      throw new Error("No enabled sources configured");
     }
-    throw error;
-  }
-}
+    const categories = await publisher.loadCategories();
+
+    const articles = [];
+    for (const source of sources) {
+      const items = await collectItems(source, count);
+      console.log(`📚 ${source.name} (${source.id}): ${items.length} candidate articles`);
+      recorder.recordSource(source.id, items.length);
+      articles.push(...items);
+    }
+
+    for (const link of options.force || []) {
+      const sourceUrl = canonicalizeUrl(link);
+      if (articles.some((article) => canonicalizeUrl(article.link) === sourceUrl)) continue;
 
-// Delay function with error handling
-function delay(ms) {
-  return new Promise((resolve) => {
-    if (typeof ms !== 'number' || ms < 0) {
-      console.warn("⚠️ Invalid delay value, using 1000ms");
-      ms = 1000;
+      const source = findSourceForLink(sources, link);
+      const title = await fetchArticleTitle(link);
+      if (!title) {
+        console.warn(`⚠️ Could not read a title for forced link ${link}, skipping`);
+        continue;
+      }
+      articles.push({ title, link, source: { id: source.id, name: source.name }, adapter: source });
     }
-    setTimeout(resolve, ms);
-  });
-}
 
-async function main(count = 15) {
-  console.log("🚀 Starting NDTV scraper with fail-fast approach...");
-  
-  let totalProcessed = 0;
-  let totalSuccessful = 0;
-  let totalFailed = 0;
+    // Work list: fresh items from the sources, then jobs that earlier runs
+    // left unfinished. The same story listed twice is only processed once.
+    const work = [];
+    const seen = new Set();
 
-  try {
-    // Try RSS first, fallback to scraping if needed
-    let articles = await scrapeNDTV_RSS(count);
+    for (const article of articles) {
+      const sourceUrl = canonicalizeUrl(article.link);
+      if (seen.has(sourceUrl)) continue;
+      seen.add(sourceUrl);
+      work.push({ ...article, sourceUrl, force: forced.has(sourceUrl) });
+    }
 
-    if (!articles.length) {
-      console.log("❌ RSS failed. Attempting website scraping...");
-      articles = await scrapeNDTV();
+    for (const job of await jobs.listResumableJobs()) {
+      if (seen.has(job.source_url)) continue;
+      seen.add(job.source_url);
+      const adapter = findSourceForLink(sources, job.source_url, job.source_id);
+      work.push({
+        title: job.source_title,
+        link: job.source_url,
+        sourceUrl: job.source_url,
+        source: { id: job.source_id, name: adapter.name },
+        adapter,
+        job,
+        force: false,
+      });
     }
 
-    if (!articles.length) {
+    if (!work.length) {
       throw new Error("No articles found from any source");
     }
 
-    console.log(`\n✅ Found ${articles.length} articles to process.\n`);
+    console.log(`\n✅ Found ${work.length} articles to process.\n`);
+
+    console.log(`⚙️ Processing with concurrency ${config.limits.concurrency}`);
 
-    for (let i = 0; i < articles.length; i++) {
-      totalProcessed++;
-      const { title, link } = articles[i];
+    async function processItem(item, i) {
+      const { title, link, sourceUrl, source, adapter, force } = item;
+      const tag = `[${i + 1}/${work.length}]`;
+      let job = item.job || null;
+      let outcome = "failed";
+      let failure = null;
+      const timings = {};
       
-      console.log(`\n[${ i + 1}/${articles.length}] 📰 Processing: ${title.substring(0, 50)}...`);
-      console.log(`🔗 ${link}`);
+      console.log(`\n${tag} 📰 Processing: ${title.substring(0, 50)}...`);
+      console.log(`${tag} 🔗 ${link} (${source.name})`);
 
       try {
-        // Get article content
-        const content = await getFullArticle(link);
-        if (!content || content.length < 100) {
-          console.log("⚠️ Skipping – content too short or unavailable.");
-          totalFailed++;
-          continue;
+        if (!force) {
+          const existing = await publisher.findPublished({ sourceUrl });
+          if (existing) {
+            console.log(`${tag} ⏭️ Skipping – already published as "${existing.slug}".`);
+            if (job) {
+              await jobs.saveStage(job, "published", { article_id: existing.id });
+            }
+            outcome = "skipped";
+            return;
+          }
+        }
+
+        job = job || await jobs.findOpenJob(sourceUrl);
+        if (job && !isResumable(job)) {
+          if (!force) {
+            if (job.stage === HELD) {
+              console.log(`${tag} ✋ Skipping – held for review: ${job.hold_reason}`);
+            } else {
+              console.log(`${tag} ⏭️ Skipping – gave up on this story earlier: ${job.error}`);
+            }
+            outcome = "skipped";
+            return;
+          }
+          if (job.stage === HELD) {
+            // Publish what the editor reviewed instead of starting over
+            console.log(`${tag} 🔓 Releasing held job (--force): ${job.hold_reason}`);
+          } else {
+            job = null;
+          }
         }
+        job = job || await jobs.createJob({ sourceId: source.id, sourceUrl, sourceTitle: title });
 
-        // Process with AI - ALL THREE MUST SUCCEED
-        console.log("🔄 Processing all three operations (content, title, image)...");
-        
-        // Execute all three operations - if any fail, the entire article processing fails
-        const summary = await rewriteWithGemini(content);
-        const newTitle = await rewriteTitle(title);
-        const generatedImage = await generateImage(summary, slugify(newTitle));
-
-        console.log(`📝 Title: "${newTitle}"`);
-        console.log(`🖼️ Image: ${generatedImage ? 'Generated successfully' : 'Failed'}`);
-
-        const output = {
-          text: summary,
-          title: newTitle,
-          image: generatedImage
-        };
-
-        // Upload to database only if all three operations succeeded
-        await uploadToDB(output);
-        
-        totalSuccessful++;
-        console.log(`✅ Article ${i + 1} processed successfully - all operations completed`);
+        outcome = await processJob(job, adapter, jobs, { force, timings, categories });
+        if (outcome === "published") {
+          console.log(`${tag} ✅ Article processed successfully - all operations completed`);
+        } else if (outcome === "held") {
+          failure = job.hold_reason;
+        }
 
       } catch (error) {
-        totalFailed++;
-        console.error(`❌ Failed to process article ${i + 1}:`, error.message);
-        console.log("⏭️ Skipping this article due to failure in required operations...");
+        failure = error.message;
+        console.error(`${tag} ❌ Failed to process article:`, error.message);
+        if (job) {
+          await jobs.markFailed(job, error.message);
+          console.log(`${tag} 💾 Progress saved at stage "${resumeStage(job) || 'none'}" – the next run will resume from there.`);
+        }
+      } finally {
+        recorder.recordArticle({
+          sourceId: source.id,
+          sourceUrl,
+          title: job?.rewritten_title || title,
+          jobId: job?.id,
+          outcome,
+          error: failure,
+          stageDurations: timings,
+        });
       }
+    }
 
-      // Rate limiting delay
-      if (i < articles.length - 1) {
-        console.log("⏱️ Waiting to avoid rate limits...");
-        await delay(1500);
-      }
+    const started = await runWorkerPool(work, config.limits.concurrency, processItem, {
+      shouldStop: () => aiBreaker.isOpen(),
+    });
 
-      console.log("\n" + "=".repeat(80));
+    if (aiBreaker.isOpen()) {
+      const message = `${aiBreaker.name} failed ${config.limits.circuitBreakerThreshold} times in a row`;
+      console.error(`🛑 Stopped the run: ${message}. ${work.length - started} articles left for the next run.`);
+      recorder.finish({ status: "aborted", error: message });
+    } else {
+      recorder.finish({ status: "completed" });
     }
 
   } catch (error) {
     console.error("❌ Critical error in main process:", error.message);
+    recorder.finish({ status: "failed", error: error.message });
+  }
+
+  await persistRun(run, options.report);
+  if (run.status === "failed") {
     process.exit(1);
   }
 
   // Final summary
   console.log("\n🏁 Processing Complete!");
   console.log(`📊 Summary:`);
-  console.log(`   Total articles processed: ${totalProcessed}`);
-  console.log(`   ✅ Successful: ${totalSuccessful}`);
-  console.log(`   ❌ Failed: ${totalFailed}`);
-  console.log(`   📈 Success rate: ${totalProcessed > 0 ? Math.round((totalSuccessful / totalProcessed) * 100) : 0}%`);
-
-  if (totalSuccessful === 0) {
+  console.log(`   Total articles processed: ${run.total_processed}`);
+  console.log(`   ✅ Successful: ${run.total_successful}`);
+  console.log(`   ❌ Failed: ${run.total_failed}`);
+  console.log(`   ⏭️ Skipped (already published): ${run.total_skipped}`);
+  console.log(`   ✋ Held for review: ${run.total_held}`);
+  const attempted = run.total_processed - run.total_skipped;
+  console.log(`   📈 Success rate: ${attempted > 0 ? Math.round((run.total_successful / attempted) * 100) : 0}%`);
+
+  // A run where every item was already published is healthy, not a failure.
+  if (run.total_successful === 0 && run.total_failed > 0) {
     console.log("⚠️ No articles were successfully processed. Check your configuration and network connection.");
     process.exit(1);
   }
 }
 
+// The report file is written even when the history insert fails, so the
+// workflow always has an artifact to upload.
+async function persistRun(run, reportPath) {
+  if (reportPath) {
+    try {
+      writeRunReport(reportPath, run);
+      console.log(`🧾 Run report written to ${reportPath}`);
+    } catch (error) {
+      console.error("❌ Could not write run report:", error.message);
+    }
+  }
+
+  if (supabase) {
+    try {
+      await saveRun(supabase, run);
+      console.log("🧾 Run saved to pipeline_runs");
+    } catch (error) {
+      console.error("❌", error.message);
+    }
+  }
+}
+
 // Global error handlers
 process.on('uncaughtException', (error) => {
   console.error('❌ Uncaught Exception:', error.message);
@@ -619,4 +927,4 @@ process.on('SIGTERM', () => {
   process.exit(0);
 });
 
-main();
+main(config.articles, { force: args.force, trigger: args.trigger, report: args.report || config.output.report });
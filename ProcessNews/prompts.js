@@ -0,0 +1,29 @@
+// Prompt templates live in ProcessNews/prompts/ and are chosen by the
+// `prompts` section of the pipeline config. A template fills in {{name}}
+// placeholders; these are the names each prompt is given.
+export const PROMPT_VARIABLES = {
+  rewrite: ["content", "formatNote", "copiedNote", "feedbackNote"],
+  title: ["title", "copiedNote"],
+  summary: ["title", "content"],
+  headlines: ["title", "content", "count"],
+  category: ["title", "content", "categories", "example"],
+  tags: ["title", "content", "maxTags"],
+  illustration: ["title", "content", "maxAlt", "maxCaption"],
+  safety: ["kind", "content", "categories"],
+  image: ["subject", "description"],
+};
+
+const PLACEHOLDER = /\{\{\s*(\w+)\s*\}\}/g;
+
+export function findPlaceholders(template) {
+  return [...new Set([...template.matchAll(PLACEHOLDER)].map((match) => match[1]))];
+}
+
+export function renderPrompt(template, variables) {
+  return template.replace(PLACEHOLDER, (_, name) => {
+    if (!(name in variables)) {
+      throw new Error(`Prompt placeholder {{${name}}} has no value`);
+    }
+    return String(variables[name]);
+  });
+}
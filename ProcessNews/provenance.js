@@ -0,0 +1,50 @@
+import { createHash } from "node:crypto";
+
+// Which prompt template and model produced each AI output of an article.
+// Jobs keep one entry per task ({ rewrite, title, summary, ... }) so a
+// resumed job still knows where its earlier outputs came from. A task that
+// runs again (a style or overlap retry) takes the prompt and model of the
+// output that was published, but keeps adding up tokens and attempts, so the
+// entries also show what the article cost.
+
+// Short content hash of a template: tells edited templates apart even when
+// nobody bumped the version.
+export function hashTemplate(template) {
+  return createHash("sha256").update(template).digest("hex").slice(0, 12);
+}
+
+export function describeGeneration(prompt, provider, result) {
+  return {
+    prompt_id: prompt.id,
+    prompt_version: prompt.version,
+    prompt_hash: prompt.hash,
+    provider: provider.name,
+    model: provider.model,
+    parameters: result.parameters || {},
+    input_tokens: result.usage?.inputTokens ?? null,
+    output_tokens: result.usage?.outputTokens ?? null,
+    attempts: 1,
+    generated_at: new Date().toISOString(),
+  };
+}
+
+// Unknown only when no attempt reported usage
+function addTokens(previous, current) {
+  return previous == null && current == null ? null : (previous ?? 0) + (current ?? 0);
+}
+
+export function recordGeneration(provenance, task, prompt, provider, result) {
+  const entry = describeGeneration(prompt, provider, result);
+  const previous = provenance[task];
+  if (previous) {
+    entry.input_tokens = addTokens(previous.input_tokens, entry.input_tokens);
+    entry.output_tokens = addTokens(previous.output_tokens, entry.output_tokens);
+    entry.attempts = (previous.attempts ?? 1) + 1;
+  }
+  provenance[task] = entry;
+}
+
+// Rows for the `article_provenance` table, one per task
+export function provenanceRows(provenance) {
+  return Object.entries(provenance || {}).map(([task, entry]) => ({ task, ...entry }));
+}
@@ -0,0 +1,93 @@
+import { http } from "../http.js";
+import { GoogleGenAI, Modality } from "@google/genai";
+import { withRetry } from "../retry.js";
+
+const API_BASE = "https://generativelanguage.googleapis.com/v1beta/models";
+
+// Gemini reports usage as { promptTokenCount, candidatesTokenCount }
+function readUsage(metadata) {
+  if (!metadata) return null;
+  return { inputTokens: metadata.promptTokenCount ?? null, outputTokens: metadata.candidatesTokenCount ?? null };
+}
+
+function requireApiKey(apiKey) {
+  if (!apiKey) {
+    throw new Error("GEMINI_API_KEY is not set - the Gemini provider cannot be used");
+  }
+}
+
+export function createGeminiTextProvider({ apiKey, model = "gemini-2.0-flash" }) {
+  requireApiKey(apiKey);
+
+  async function generateText(prompt, { timeout = 30000 } = {}) {
+    try {
+      const res = await http.post(
+        `${API_BASE}/${model}:generateContent?key=${apiKey}`,
+        {
+          contents: [{ parts: [{ text: prompt }] }],
+        },
+        {
+          headers: { "Content-Type": "application/json" },
+          timeout
+        }
+      );
+
+      const text = res.data?.candidates?.[0]?.content?.parts?.[0]?.text;
+      if (!text) {
+        throw new Error("Invalid response structure from Gemini API");
+      }
+      // No generationConfig is sent, so the model's defaults apply
+      return { text, usage: readUsage(res.data.usageMetadata), parameters: {} };
+    } catch (error) {
+      if (error.code === 'ECONNABORTED') {
+        throw new Error("Gemini API timeout", { cause: error });
+      } else if (error.response?.status === 429) {
+        throw new Error("Gemini API rate limit exceeded", { cause: error });
+      } else if (error.response?.status === 403) {
+        throw new Error("Gemini API authentication failed", { cause: error });
+      } else {
+        throw new Error(`Gemini API error: ${error.response?.data?.error?.message || error.message}`, { cause: error });
+      }
+    }
+  }
+
+  return { name: "gemini", model, generateText };
+}
+
+export function createGeminiImageProvider({ apiKey, model = "gemini-2.0-flash-preview-image-generation" }) {
+  requireApiKey(apiKey);
+  const ai = new GoogleGenAI({ apiKey });
+
+  async function generateImage(prompt) {
+    const parameters = { responseModalities: [Modality.TEXT, Modality.IMAGE] };
+    const response = await withRetry(
+      () => ai.models.generateContent({
+        model,
+        contents: prompt,
+        config: parameters,
+      }),
+      { label: `Gemini image (${model})` }
+    );
+
+    if (!response?.candidates?.[0]?.content?.parts) {
+      throw new Error("Invalid image generation response");
+    }
+
+    for (const part of response.candidates[0].content.parts) {
+      if (part.text) {
+        console.log("📝 Image generation context:", part.text.substring(0, 100) + "...");
+      } else if (part.inlineData?.data) {
+        return {
+          buffer: Buffer.from(part.inlineData.data, "base64"),
+          mimeType: part.inlineData.mimeType || "image/png",
+          usage: readUsage(response.usageMetadata),
+          parameters,
+        };
+      }
+    }
+
+    throw new Error("No image was generated in the response");
+  }
+
+  return { name: "gemini", model, generateImage };
+}
@@ -0,0 +1,39 @@
+import { createGeminiTextProvider, createGeminiImageProvider } from "./gemini.js";
+import { createOpenAITextProvider, createOpenAIImageProvider } from "./openai.js";
+import { createMockTextProvider, createMockImageProvider } from "./mock.js";
+
+// Text providers expose  generateText(prompt, { task, timeout, choices }) -> { text, usage, parameters }
+// (`choices` lists the valid answers of a classification prompt)
+// Image providers expose generateImage(prompt) -> { buffer, mimeType, usage, parameters }
+// `usage` is { inputTokens, outputTokens } or null when the API reports none,
+// `parameters` the generation settings sent with the request.
+// Both also carry `name` and `model` for logging and provenance.
+// Models and endpoints come from the `providers` section of the pipeline
+// config; API keys stay in the environment.
+const TEXT_PROVIDERS = {
+  gemini: (config, env) => createGeminiTextProvider({ apiKey: env.GEMINI_API_KEY, model: config.gemini.textModel }),
+  openai: (config, env) => createOpenAITextProvider({ baseUrl: config.openai.baseUrl, apiKey: env.OPENAI_API_KEY, model: config.openai.textModel }),
+  mock: () => createMockTextProvider(),
+};
+
+const IMAGE_PROVIDERS = {
+  gemini: (config, env) => createGeminiImageProvider({ apiKey: env.GEMINI_API_KEY, model: config.gemini.imageModel }),
+  openai: (config, env) => createOpenAIImageProvider({ baseUrl: config.openai.baseUrl, apiKey: env.OPENAI_API_KEY, model: config.openai.imageModel }),
+  mock: () => createMockImageProvider(),
+};
+
+function pick(registry, kind, name, config, env) {
+  const factory = registry[name];
+  if (!factory) {
+    throw new Error(`Unknown ${kind} provider "${name}" (expected one of: ${Object.keys(registry).join(", ")})`);
+  }
+  return factory(config, env);
+}
+
+// `providers.text` / `providers.image` select the implementation.
+export function createProviders(config, env = process.env) {
+  return {
+    text: pick(TEXT_PROVIDERS, "text", config.text, config, env),
+    image: pick(IMAGE_PROVIDERS, "image", config.image, config, env),
+  };
+}
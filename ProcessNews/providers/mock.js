@@ -0,0 +1,158 @@
+import { createHash } from "node:crypto";
+import { deflateSync } from "node:zlib";
+
+// Offline providers for development and tests: no network, no API key, and
+// the same prompt always yields the same output.
+
+const WORDS = [
+  "officials", "said", "the", "city", "council", "announced", "new", "measures",
+  "on", "tuesday", "after", "a", "review", "of", "local", "services", "residents",
+  "were", "informed", "that", "the", "plan", "will", "take", "effect", "next",
+  "month", "according", "to", "a", "statement", "authorities", "expect", "changes",
+  "in", "transport", "schedules", "and", "public", "funding", "for", "schools",
+];
+
+function seededRandom(seedText) {
+  let seed = createHash("sha256").update(seedText).digest().readUInt32LE(0);
+  // mulberry32
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function sentence(random, length) {
+  const words = Array.from({ length }, () => WORDS[Math.floor(random() * WORDS.length)]);
+  const text = words.join(" ");
+  return text.charAt(0).toUpperCase() + text.slice(1) + ".";
+}
+
+function paragraphs(random, count, sentencesPerParagraph) {
+  return Array.from({ length: count }, () =>
+    Array.from({ length: sentencesPerParagraph }, () => sentence(random, 12 + Math.floor(random() * 8))).join(" ")
+  ).join("\n\n");
+}
+
+// Whitespace-separated words stand in for tokens
+const countWords = (text) => text.split(/\s+/).filter(Boolean).length;
+
+export function createMockTextProvider({ model = "mock-text-1" } = {}) {
+  async function generateText(prompt, options = {}) {
+    const text = reply(prompt, options);
+    return { text, usage: { inputTokens: countWords(prompt), outputTokens: countWords(text) }, parameters: {} };
+  }
+
+  function reply(prompt, { task, choices }) {
+    const random = seededRandom(prompt);
+
+    if (choices?.length) {
+      return choices[Math.floor(random() * choices.length)];
+    }
+
+    if (task === "title") {
+      return sentence(random, 6).replace(/\.$/, "");
+    }
+    if (task === "summary") {
+      return `${sentence(random, 14)} ${sentence(random, 10)}`;
+    }
+    if (task === "headlines") {
+      return JSON.stringify(Array.from({ length: 3 }, () => sentence(random, 7).replace(/\.$/, "")));
+    }
+    if (task === "illustration") {
+      return JSON.stringify({
+        scene: `${sentence(random, 16)} ${sentence(random, 12)}`,
+        alt: sentence(random, 14),
+        caption: sentence(random, 10),
+      });
+    }
+    // Low scores in every category, so mock runs publish
+    if (task === "safety" || task === "image_safety") {
+      const categories = ["violence", "self_harm", "sexual", "hate"];
+      return JSON.stringify({
+        scores: Object.fromEntries(categories.map((category) => [category, Math.round(random() * 20) / 100])),
+        reason: "Nothing sensitive",
+      });
+    }
+    if (task === "tags") {
+      const kinds = ["person", "organisation", "place", "topic"];
+      return JSON.stringify(Array.from({ length: 3 }, () => ({
+        name: sentence(random, 2).replace(/\.$/, ""),
+        kind: kinds[Math.floor(random() * kinds.length)],
+      })));
+    }
+    // ~450 words: enough to satisfy the rewrite length requirements
+    return paragraphs(random, 5, 6);
+  }
+
+  return { name: "mock", model, generateText };
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c >>> 0;
+});
+
+function crc32(buffer) {
+  let crc = 0xffffffff;
+  for (const byte of buffer) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function pngChunk(type, data) {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+  const body = Buffer.concat([Buffer.from(type, "ascii"), data]);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(body));
+  return Buffer.concat([length, body, crc]);
+}
+
+// Vertical two-colour gradient PNG whose colours are derived from the prompt.
+function encodeGradientPng(width, height, from, to) {
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(height, 4);
+  header[8] = 8; // bit depth
+  header[9] = 2; // colour type: RGB
+
+  const rows = [];
+  for (let y = 0; y < height; y++) {
+    const mix = height > 1 ? y / (height - 1) : 0;
+    const pixel = from.map((channel, i) => Math.round(channel + (to[i] - channel) * mix));
+    const row = Buffer.alloc(1 + width * 3);
+    for (let x = 0; x < width; x++) {
+      row.set(pixel, 1 + x * 3);
+    }
+    rows.push(row);
+  }
+
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    pngChunk("IHDR", header),
+    pngChunk("IDAT", deflateSync(Buffer.concat(rows))),
+    pngChunk("IEND", Buffer.alloc(0)),
+  ]);
+}
+
+export function createMockImageProvider({ model = "mock-image-1", width = 640, height = 360 } = {}) {
+  async function generateImage(prompt) {
+    const digest = createHash("sha256").update(prompt).digest();
+    const from = [digest[0], digest[1], digest[2]];
+    const to = [digest[3], digest[4], digest[5]];
+    return {
+      buffer: encodeGradientPng(width, height, from, to),
+      mimeType: "image/png",
+      usage: { inputTokens: countWords(prompt), outputTokens: null },
+      parameters: { width, height },
+    };
+  }
+
+  return { name: "mock", model, generateImage };
+}
@@ -0,0 +1,82 @@
+import { http } from "../http.js";
+
+// Any server speaking the OpenAI REST dialect: OpenAI itself, llama.cpp's
+// `llama-server`, Ollama, vLLM, LM Studio...
+
+// Not every server reports usage; image endpoints mostly do not
+function readUsage(usage) {
+  if (!usage) return null;
+  return { inputTokens: usage.prompt_tokens ?? usage.input_tokens ?? null, outputTokens: usage.completion_tokens ?? usage.output_tokens ?? null };
+}
+export function createOpenAITextProvider({ baseUrl = "http://localhost:8080/v1", apiKey, model = "local-model" }) {
+  const headers = { "Content-Type": "application/json" };
+  if (apiKey) {
+    headers.Authorization = `Bearer ${apiKey}`;
+  }
+
+  async function generateText(prompt, { timeout = 120000, temperature = 0.7 } = {}) {
+    try {
+      const res = await http.post(
+        `${baseUrl.replace(/\/$/, "")}/chat/completions`,
+        {
+          model,
+          messages: [{ role: "user", content: prompt }],
+          temperature,
+        },
+        { headers, timeout }
+      );
+
+      const text = res.data?.choices?.[0]?.message?.content;
+      if (!text) {
+        throw new Error("Invalid response structure from OpenAI-compatible API");
+      }
+      return { text, usage: readUsage(res.data.usage), parameters: { temperature } };
+    } catch (error) {
+      if (error.code === 'ECONNABORTED') {
+        throw new Error("OpenAI-compatible API timeout", { cause: error });
+      } else if (error.code === 'ECONNREFUSED') {
+        throw new Error(`OpenAI-compatible server not reachable at ${baseUrl}`, { cause: error });
+      } else if (error.response?.status === 429) {
+        throw new Error("OpenAI-compatible API rate limit exceeded", { cause: error });
+      } else {
+        throw new Error(`OpenAI-compatible API error: ${error.response?.data?.error?.message || error.message}`, { cause: error });
+      }
+    }
+  }
+
+  return { name: "openai", model, generateText };
+}
+
+export function createOpenAIImageProvider({ baseUrl = "http://localhost:8080/v1", apiKey, model = "dall-e-3" }) {
+  const headers = { "Content-Type": "application/json" };
+  if (apiKey) {
+    headers.Authorization = `Bearer ${apiKey}`;
+  }
+
+  async function generateImage(prompt, { timeout = 120000 } = {}) {
+    const parameters = { n: 1, response_format: "b64_json" };
+    try {
+      const res = await http.post(
+        `${baseUrl.replace(/\/$/, "")}/images/generations`,
+        { model, prompt, ...parameters },
+        { headers, timeout }
+      );
+
+      const data = res.data?.data?.[0]?.b64_json;
+      if (!data) {
+        throw new Error("No image was generated in the response");
+      }
+      return { buffer: Buffer.from(data, "base64"), mimeType: "image/png", usage: readUsage(res.data.usage), parameters };
+    } catch (error) {
+      if (error.code === 'ECONNABORTED') {
+        throw new Error("OpenAI-compatible image API timeout", { cause: error });
+      } else if (error.code === 'ECONNREFUSED') {
+        throw new Error(`OpenAI-compatible server not reachable at ${baseUrl}`, { cause: error });
+      } else {
+        throw new Error(`OpenAI-compatible image API error: ${error.response?.data?.error?.message || error.message}`, { cause: error });
+      }
+    }
+  }
+
+  return { name: "openai", model, generateImage };
+}
@@ -0,0 +1,99 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { randomUUID } from "node:crypto";
+import { DEFAULT_CATEGORIES } from "../categories.js";
+
+const EXTENSIONS = { "image/png": "png", "image/jpeg": "jpg", "image/webp": "webp", "image/avif": "avif" };
+
+export function renderMarkdown(record) {
+  const lines = [`# ${record.title}`, ""];
+  if (record.summary) {
+    lines.push(`> ${record.summary}`, "");
+  }
+  if (record.image_path) {
+    lines.push(`![${record.image_alt || record.title}](${path.basename(record.image_path)})`, "");
+    if (record.image_caption) {
+      lines.push(`*${record.image_caption}*`, "");
+    }
+  }
+  const category = record.category ? `${record.category} · ` : "";
+  lines.push(`*${category}Source: [${record.source_id || "unknown"}](${record.source_url}) · Generated ${record.generated_at}*`, "");
+  if (record.tags?.length) {
+    lines.push(`Tags: ${record.tags.map((tag) => `${tag.name} (${tag.kind})`).join(", ")}`, "");
+  }
+  if (record.headline_variants?.length) {
+    lines.push(`Headline variants: ${record.headline_variants.map((headline) => `"${headline}"`).join(", ")}`, "");
+  }
+  lines.push(record.content.trim(), "");
+  return lines.join("\n");
+}
+
+// Dry-run target: every article becomes a folder in `outDir` holding
+// article.json, article.md and its image. Nothing is sent to Supabase.
+export function createBundlePublisher({ outDir }) {
+  const root = path.resolve(outDir);
+
+  function articleDir(name) {
+    const dir = path.join(root, name);
+    fs.mkdirSync(dir, { recursive: true });
+    return dir;
+  }
+
+  // A dry run has no record of what is live, so nothing counts as published.
+  async function findPublished() {
+    return null;
+  }
+
+  async function loadCategories() {
+    return DEFAULT_CATEGORIES;
+  }
+
+  // Renditions sit next to the original as <variant>.<ext>
+  async function saveImage(buffer, imageName, contentType, variant = "image") {
+    const file = path.join(articleDir(imageName), `${variant}.${EXTENSIONS[contentType] || "png"}`);
+    fs.writeFileSync(file, buffer);
+    console.log(`💾 Image written to ${path.relative(process.cwd(), file)}`);
+    return path.relative(root, file);
+  }
+
+  async function publish(output) {
+    if (!output?.title || !output?.text) {
+      throw new Error("Missing required fields for bundle output");
+    }
+
+    const name = output.slug;
+    const record = {
+      id: randomUUID(),
+      slug: name,
+      title: output.title,
+      summary: output.summary || null,
+      content: output.text,
+      image_path: output.imagePath || null,
+      image_renditions: output.imageRenditions || null,
+      image_placeholder: output.imagePlaceholder || null,
+      image_fallback: Boolean(output.imageFallback),
+      image_alt: output.imageAlt || null,
+      image_caption: output.imageCaption || null,
+      source_id: output.sourceId || null,
+      source_url: output.sourceUrl || null,
+      content_hash: output.contentHash || null,
+      overlap_score: output.overlapScore ?? null,
+      consistency_score: output.consistencyScore ?? null,
+      category: output.category || null,
+      tags: output.tags || [],
+      headline_variants: output.headlineVariants || [],
+      provenance: output.provenance || [],
+      job_id: output.jobId || null,
+      generated_at: new Date().toISOString(),
+    };
+
+    const dir = articleDir(name);
+    fs.writeFileSync(path.join(dir, "article.json"), JSON.stringify(record, null, 2) + "\n");
+    fs.writeFileSync(path.join(dir, "article.md"), renderMarkdown(record));
+    console.log(`📝 Article written to ${path.relative(process.cwd(), dir)}`);
+
+    return { success: true, article: record };
+  }
+
+  return { name: "bundle", findPublished, loadCategories, saveImage, publish };
+}
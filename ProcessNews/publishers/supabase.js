@@ -0,0 +1,110 @@
+import { http } from "../http.js";
+import { withRetry } from "../retry.js";
+import { findPublishedArticle } from "../dedup.js";
+import { listCategories } from "../categories.js";
+
+const EXTENSIONS = { "image/png": "png", "image/jpeg": "jpg", "image/webp": "webp", "image/avif": "avif" };
+
+// Paths are unique per job, but a regenerated image overwrites its job's
+// files in place, so caches must expire
+const IMAGE_CACHE_SECONDS = 86400;
+
+// Live target: images go to the public `images` storage bucket and articles
+// to the `publish-article` edge function. Articles reference images by their
+// object path; the site builds the public URL.
+export function createSupabasePublisher({ supabase, endpoint }) {
+  async function findPublished(keys) {
+    return findPublishedArticle(supabase, keys);
+  }
+
+  async function loadCategories() {
+    return listCategories(supabase);
+  }
+
+  // The original is stored as <name>.<ext>, a rendition as <name>/<variant>.<ext>
+  async function saveImage(buffer, imageName, contentType, variant) {
+    const extension = EXTENSIONS[contentType] || "png";
+    const file = variant ? `${imageName}/${variant}.${extension}` : `${imageName}.${extension}`;
+    try {
+      console.log(`☁️ Uploading image to Supabase: ${file}`);
+      await withRetry(async () => {
+        const { error } = await supabase.storage
+          .from('images')
+          .upload(file, buffer, {
+            contentType,
+            cacheControl: String(IMAGE_CACHE_SECONDS),
+            upsert: true,
+          });
+
+        if (error) {
+          throw Object.assign(new Error(`Supabase upload failed: ${error.message}`), { status: error.statusCode });
+        }
+      }, { label: "Supabase image upload" });
+
+      console.log(`✅ Image uploaded successfully: ${file}`);
+      return file;
+    } catch (error) {
+      console.error("❌ Supabase upload error:", error.message);
+      throw error;
+    }
+  }
+
+  async function publish(output) {
+    try {
+      if (!output?.title || !output?.text) {
+        throw new Error("Missing required fields for database upload");
+      }
+
+      console.log(`💾 Uploading to database: "${output.title.substring(0, 30)}..."`);
+      const res = await http.post(
+        endpoint,
+        {
+          title: output.title,
+          summary: output.summary || null,
+          text: output.text,
+          image_path: output.imagePath || null,
+          image_renditions: output.imageRenditions || null,
+          image_placeholder: output.imagePlaceholder || null,
+          image_fallback: Boolean(output.imageFallback),
+          image_alt: output.imageAlt || null,
+          image_caption: output.imageCaption || null,
+          source_id: output.sourceId || null,
+          source_url: output.sourceUrl || null,
+          content_hash: output.contentHash || null,
+          overlap_score: output.overlapScore ?? null,
+          consistency_score: output.consistencyScore ?? null,
+          category: output.category || null,
+          tags: output.tags || [],
+          headline_variants: output.headlineVariants || [],
+          provenance: output.provenance || [],
+          // Idempotency key: a retried request returns the article already published
+          job_id: output.jobId || null,
+        },
+        {
+          timeout: 10000,
+          headers: { "Content-Type": "application/json" }
+        }
+      );
+
+      if (!res.data?.success) {
+        throw new Error("Database upload failed - no success confirmation");
+      }
+
+      console.log("✅ Successfully uploaded to database");
+      return res.data;
+    } catch (error) {
+      if (error.code === 'ECONNABORTED') {
+        console.error("❌ Database upload timeout");
+      } else if (error.response?.status === 400) {
+        console.error("❌ Database upload failed - bad request:", error.response.data);
+      } else if (error.response?.status === 500) {
+        console.error("❌ Database upload failed - server error");
+      } else {
+        console.error("❌ Database upload error:", error.response?.data || error.message);
+      }
+      throw error;
+    }
+  }
+
+  return { name: "supabase", findPublished, loadCategories, saveImage, publish };
+}
@@ -0,0 +1,50 @@
+import sharp from "sharp";
+
+// Smaller copies of the article image so pages stop loading the full-size
+// original for 64px thumbnails. The site picks between them with srcset.
+export const RENDITIONS = [
+  { name: "thumb", width: 160 },
+  { name: "card", width: 640 },
+  { name: "hero", width: 1280 },
+];
+
+// Wide enough to hint at the composition, small enough to inline (~200 bytes)
+const PLACEHOLDER_WIDTH = 16;
+
+const FORMATS = [
+  { format: "avif", mimeType: "image/avif", options: { quality: 50 } },
+  { format: "webp", mimeType: "image/webp", options: { quality: 80 } },
+];
+
+// Returns one entry per rendition and format. Images narrower than a
+// rendition are not upscaled, so that rendition keeps the original width.
+export async function createRenditions(buffer) {
+  const renditions = [];
+  for (const { name, width } of RENDITIONS) {
+    for (const { format, mimeType, options } of FORMATS) {
+      const { data, info } = await sharp(buffer)
+        .resize({ width, withoutEnlargement: true })
+        [format](options)
+        .toBuffer({ resolveWithObject: true });
+      renditions.push({ name, format, mimeType, width: info.width, height: info.height, buffer: data });
+    }
+  }
+  return renditions;
+}
+
+// Tiny preview the site shows until the real image has decoded, stored on
+// the article as a data URL so it arrives with the article row.
+export async function createPlaceholder(buffer) {
+  const data = await sharp(buffer).resize({ width: PLACEHOLDER_WIDTH }).webp({ quality: 40 }).toBuffer();
+  return `data:image/webp;base64,${data.toString("base64")}`;
+}
+
+// Shape stored in `image_renditions`, with storage object paths:
+// { thumb: { width, height, avif: path, webp: path }, card: {...}, hero: {...} }
+export function describeRenditions(renditions, paths) {
+  const description = {};
+  renditions.forEach(({ name, format, width, height }, index) => {
+    description[name] = { ...description[name], width, height, [format]: paths[index] };
+  });
+  return description;
+}
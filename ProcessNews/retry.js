@@ -0,0 +1,125 @@
+// Shared retry policy for every outbound call the pipeline makes.
+
+export const DEFAULT_RETRY_POLICY = {
+  retries: 3,
+  baseDelay: 1000,
+  maxDelay: 30000,
+  // Upper bound on how long a server may ask us to wait via Retry-After
+  maxRetryAfter: 60000,
+};
+
+const RETRYABLE_CODES = new Set(["ECONNABORTED", "ECONNRESET", "ETIMEDOUT", "EAI_AGAIN", "EPIPE", "ECONNREFUSED"]);
+
+function statusOf(error) {
+  return error?.response?.status ?? error?.status ?? error?.cause?.response?.status ?? error?.cause?.status;
+}
+
+// Timeouts, dropped connections, 408, 429 and 5xx are worth another try;
+// other 4xx responses will fail the same way again.
+export function isRetryable(error) {
+  const status = Number(statusOf(error));
+  if (status) {
+    return status === 408 || status === 429 || status >= 500;
+  }
+  return RETRYABLE_CODES.has(error?.code ?? error?.cause?.code);
+}
+
+// Milliseconds requested by a Retry-After header (delta-seconds or HTTP-date).
+export function parseRetryAfter(error) {
+  const headers = error?.response?.headers ?? error?.cause?.response?.headers;
+  const value = headers?.["retry-after"] ?? headers?.get?.("retry-after");
+  if (!value) return null;
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+// Exponential backoff with full jitter, unless the server said how long to wait.
+export function retryDelay(error, attempt, policy = DEFAULT_RETRY_POLICY) {
+  const retryAfter = parseRetryAfter(error);
+  if (retryAfter !== null) {
+    return Math.min(retryAfter, policy.maxRetryAfter);
+  }
+  const ceiling = Math.min(policy.maxDelay, policy.baseDelay * 2 ** (attempt - 1));
+  return Math.round(Math.random() * ceiling);
+}
+
+export function describeError(error) {
+  const status = statusOf(error);
+  return status ? `HTTP ${status}` : error?.code || error?.message || "unknown error";
+}
+
+export function sleep(ms) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// Calls `fn` until it succeeds, fails with a non-retryable error, or the
+// policy runs out of retries.
+export async function withRetry(fn, { label = "request", ...overrides } = {}) {
+  const policy = { ...DEFAULT_RETRY_POLICY, ...overrides };
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await fn();
+    } catch (error) {
+      if (attempt > policy.retries || !isRetryable(error)) {
+        throw error;
+      }
+      const wait = retryDelay(error, attempt, policy);
+      console.warn(`🔁 ${label} failed (${describeError(error)}), retry ${attempt}/${policy.retries} in ${wait}ms`);
+      await sleep(wait);
+    }
+  }
+}
+
+// For supabase-js queries, which resolve with `{ data, error, status }` rather
+// than throw. `query` builds a fresh query per attempt; an error result is
+// thrown as `${message}: <error>` with its HTTP status, and status 0 (no
+// response at all) is retried like a dropped connection.
+export async function withSupabaseRetry(query, { label, message }) {
+  return withRetry(async () => {
+    const result = await query();
+    if (result.error) {
+      const failure = result.status ? { status: result.status } : { code: "ECONNRESET" };
+      throw Object.assign(new Error(`${message}: ${result.error.message}`), failure);
+    }
+    return result;
+  }, { label });
+}
+
+// Opens after `threshold` consecutive failures; while open every call fails
+// immediately so a dead provider does not burn through the rest of the run.
+export function createCircuitBreaker({ name, threshold = 5 }) {
+  let consecutiveFailures = 0;
+
+  function isOpen() {
+    return consecutiveFailures >= threshold;
+  }
+
+  async function call(fn) {
+    if (isOpen()) {
+      const error = new Error(`${name} circuit open after ${consecutiveFailures} consecutive failures`);
+      error.circuitOpen = true;
+      throw error;
+    }
+
+    try {
+      const result = await fn();
+      consecutiveFailures = 0;
+      return result;
+    } catch (error) {
+      consecutiveFailures++;
+      if (isOpen()) {
+        console.error(`🛑 ${name} circuit opened after ${consecutiveFailures} consecutive failures`);
+      }
+      throw error;
+    }
+  }
+
+  return { name, call, isOpen };
+}
@@ -0,0 +1,88 @@
+import * as fs from "node:fs";
+import { randomUUID } from "node:crypto";
+
+// GitHub Actions sets GITHUB_EVENT_NAME=schedule for cron-triggered runs.
+export function detectTrigger(env = process.env) {
+  return env.GITHUB_EVENT_NAME === "schedule" ? "cron" : "manual";
+}
+
+// Collects everything that happens in one run: candidate counts per source,
+// the outcome and per-stage timings of every article, and the totals.
+export function createRunRecorder({ trigger }) {
+  const run = {
+    id: randomUUID(),
+    trigger,
+    status: "running",
+    started_at: new Date().toISOString(),
+    finished_at: null,
+    error: null,
+    source_counts: {},
+    total_processed: 0,
+    total_successful: 0,
+    total_failed: 0,
+    total_skipped: 0,
+    total_held: 0,
+    articles: [],
+    stage_durations: {},
+  };
+
+  function recordSource(sourceId, count) {
+    run.source_counts[sourceId] = (run.source_counts[sourceId] || 0) + count;
+  }
+
+  // outcome: "published" | "skipped" | "held" | "failed"
+  function recordArticle({ sourceId, sourceUrl, title, jobId = null, outcome, error = null, stageDurations = {} }) {
+    run.total_processed++;
+    if (outcome === "published") run.total_successful++;
+    else if (outcome === "failed") run.total_failed++;
+    else if (outcome === "held") run.total_held++;
+    else run.total_skipped++;
+
+    run.articles.push({
+      source_id: sourceId,
+      source_url: sourceUrl,
+      title,
+      job_id: jobId,
+      outcome,
+      error,
+      stage_durations: stageDurations,
+    });
+  }
+
+  function aggregateStageDurations() {
+    const stages = {};
+    for (const article of run.articles) {
+      for (const [stage, ms] of Object.entries(article.stage_durations)) {
+        const entry = stages[stage] || (stages[stage] = { count: 0, total_ms: 0, avg_ms: 0, max_ms: 0 });
+        entry.count++;
+        entry.total_ms += ms;
+        entry.max_ms = Math.max(entry.max_ms, ms);
+      }
+    }
+    for (const entry of Object.values(stages)) {
+      entry.avg_ms = Math.round(entry.total_ms / entry.count);
+    }
+    return stages;
+  }
+
+  function finish({ status, error = null }) {
+    run.status = status;
+    run.error = error;
+    run.finished_at = new Date().toISOString();
+    run.stage_durations = aggregateStageDurations();
+    return run;
+  }
+
+  return { run, recordSource, recordArticle, finish };
+}
+
+export async function saveRun(supabase, run) {
+  const { error } = await supabase.from("pipeline_runs").insert(run);
+  if (error) {
+    throw new Error(`Saving run history failed: ${error.message}`);
+  }
+}
+
+export function writeRunReport(path, run) {
+  fs.writeFileSync(path, JSON.stringify(run, null, 2) + "\n");
+}
@@ -0,0 +1,71 @@
+import { renderPrompt } from "./prompts.js";
+
+// Screens an article and its image prompt before anything is published or
+// drawn. The text model scores each category from 0 (absent) to 1 (explicit
+// and graphic); a score at or above the configured threshold holds the
+// article for review.
+
+export const SAFETY_CATEGORIES = {
+  violence: "graphic violence: gore, injuries, dead bodies or killing described in detail",
+  self_harm: "suicide or self-harm, especially methods, notes or how it was done",
+  sexual: "sexual content or sexual violence described in detail",
+  hate: "content that demeans or attacks people for who they are",
+};
+
+// What is being screened, as named in the prompt
+const KINDS = {
+  text: "news article (its headlines and summary, then the body)",
+  image: "prompt for an image generator that will illustrate a news article",
+};
+
+export function buildSafetyPrompt(template, kind, content) {
+  return renderPrompt(template, {
+    kind: KINDS[kind],
+    content: content.slice(0, 6000),
+    categories: Object.entries(SAFETY_CATEGORIES)
+      .map(([name, description]) => `- ${name}: ${description}`)
+      .join("\n"),
+  });
+}
+
+// Returns { scores, reason } or null when the reply holds no JSON object with
+// a score for every category. A missing score is not read as 0: an article
+// nobody could screen is not safe to publish.
+export function parseSafety(reply) {
+  const match = reply.match(/\{[\s\S]*\}/);
+  if (!match) return null;
+
+  let entry;
+  try {
+    entry = JSON.parse(match[0]);
+  } catch {
+    return null;
+  }
+
+  const scores = {};
+  for (const category of Object.keys(SAFETY_CATEGORIES)) {
+    const score = entry?.scores?.[category];
+    if (typeof score !== "number" || !Number.isFinite(score)) return null;
+    scores[category] = Math.min(1, Math.max(0, Math.round(score * 100) / 100));
+  }
+  const reason = typeof entry.reason === "string" ? entry.reason.trim().slice(0, 500) : "";
+  return { scores, reason };
+}
+
+// Categories whose score reaches the threshold, highest score first
+export function findFlags(scores, thresholds) {
+  return Object.entries(scores)
+    .filter(([category, score]) => score >= thresholds[category])
+    .map(([category, score]) => ({ category, score, threshold: thresholds[category] }))
+    .sort((a, b) => b.score - a.score);
+}
+
+export function describeFlags(flags) {
+  return flags.map((flag) => `${flag.category} ${flag.score} ≥ ${flag.threshold}`).join(", ");
+}
+
+export function describeScores(scores) {
+  return Object.entries(scores)
+    .map(([category, score]) => `${category} ${score}`)
+    .join(", ");
+}
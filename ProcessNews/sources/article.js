@@ -0,0 +1,97 @@
+import { http } from "../http.js";
+import * as cheerio from "cheerio";
+
+export const DEFAULT_ARTICLE_SELECTORS = [
+  ".sp-cn.ins_storybody > p",
+  ".ins_storybody p",
+  ".story_content p",
+  ".article-content p",
+  ".content p",
+  "p",
+];
+
+// Generic full-text extraction shared by every adapter. Sources can override
+// the paragraph selectors through their `article` config block.
+export async function extractArticleText(link, options = {}) {
+  const {
+    selectors = DEFAULT_ARTICLE_SELECTORS,
+    minParagraphLength = 50,
+    maxParagraphs = 8,
+    timeout = 12000,
+  } = options;
+
+  try {
+    if (!link || typeof link !== 'string') {
+      throw new Error("Invalid article link");
+    }
+
+    console.log(`📄 Fetching article: ${link.substring(0, 50)}...`);
+    const res = await http.get(link, {
+      scrape: true,
+      headers: { "User-Agent": "Mozilla/5.0" },
+      timeout
+    });
+
+    if (!res.data) {
+      throw new Error("Empty article response");
+    }
+
+    const $ = cheerio.load(res.data);
+    const paragraphs = [];
+
+    for (const selector of selectors) {
+      try {
+        $(selector).each((_, el) => {
+          const text = $(el).text().trim();
+          if (text.length > minParagraphLength && !text.includes("©") && !text.includes("All rights reserved")) {
+            paragraphs.push(text);
+          }
+        });
+
+        if (paragraphs.length > 3) break;
+      } catch (error) {
+        console.warn(`⚠️ Error with selector "${selector}":`, error.message);
+        continue;
+      }
+    }
+
+    const content = paragraphs.slice(0, maxParagraphs).join("\n\n");
+
+    if (content.length < 100) {
+      throw new Error("Article content too short");
+    }
+
+    console.log(`✅ Article content extracted (${content.length} chars)`);
+    return content;
+  } catch (error) {
+    if (error.code === 'ECONNABORTED') {
+      console.error("⚠️ Article fetch timeout:", link);
+    } else if (error.code === 'ENOTFOUND') {
+      console.error("⚠️ Article fetch network error:", link);
+    } else {
+      console.error("⚠️ Error fetching article:", error.message);
+    }
+    return "";
+  }
+}
+
+// Used for links that did not come from a listing (e.g. --force), where the
+// feed title is not available.
+export async function fetchArticleTitle(link, timeout = 12000) {
+  try {
+    const res = await http.get(link, {
+      scrape: true,
+      headers: { "User-Agent": "Mozilla/5.0" },
+      timeout
+    });
+    const $ = cheerio.load(res.data);
+    const title =
+      $('meta[property="og:title"]').attr("content") ||
+      $("h1").first().text() ||
+      $("title").text();
+    return title ? title.trim() : "";
+  } catch (error) {
+    console.error("⚠️ Error fetching article title:", error.message);
+    return "";
+  }
+}
@@ -0,0 +1,73 @@
+import { http } from "../http.js";
+import * as xml2js from "xml2js";
+import { extractArticleText } from "./article.js";
+
+// Atom entries carry their URL as <link rel="alternate" href="..."/>; a link
+// without a rel attribute is treated as alternate per RFC 4287.
+function pickEntryLink(entry) {
+  const links = entry.link || [];
+  const alternate = links.find((l) => !l.$?.rel || l.$.rel === 'alternate') || links[0];
+  return alternate?.$?.href || null;
+}
+
+function textOf(node) {
+  if (!node) return null;
+  if (typeof node === 'string') return node;
+  return node._ ?? null;
+}
+
+export function createAtomAdapter(config) {
+  async function listItems(count) {
+    try {
+      console.log(`📡 [${config.id}] Fetching Atom feed...`);
+      const res = await http.get(config.url, {
+        scrape: true,
+        timeout: config.timeout ?? 10000,
+        headers: { "User-Agent": "Mozilla/5.0" }
+      });
+
+      if (!res.data) {
+        throw new Error("Empty response from Atom feed");
+      }
+
+      const parsed = await xml2js.parseStringPromise(res.data);
+
+      if (!parsed?.feed?.entry) {
+        throw new Error("Invalid Atom structure");
+      }
+
+      const articles = parsed.feed.entry.slice(0, count)
+        .map((entry) => {
+          try {
+            const title = textOf(entry.title?.[0]);
+            const link = pickEntryLink(entry);
+            if (!title || !link) {
+              return null;
+            }
+            return { title: title.trim(), link };
+          } catch (error) {
+            console.warn("⚠️ Skipping malformed Atom entry:", error.message);
+            return null;
+          }
+        })
+        .filter(Boolean);
+
+      console.log(`✅ [${config.id}] Fetched ${articles.length} articles from Atom feed`);
+      return articles;
+    } catch (error) {
+      if (error.code === 'ECONNABORTED') {
+        console.error(`❌ [${config.id}] Atom fetch timeout - server took too long to respond`);
+      } else if (error.code === 'ENOTFOUND') {
+        console.error(`❌ [${config.id}] Atom fetch failed - network/DNS error`);
+      } else {
+        console.error(`❌ [${config.id}] Error fetching Atom feed:`, error.message);
+      }
+      return [];
+    }
+  }
+
+  return {
+    listItems,
+    extractArticle: (link) => extractArticleText(link, config.article),
+  };
+}
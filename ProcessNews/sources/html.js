@@ -0,0 +1,86 @@
+import { http } from "../http.js";
+import * as cheerio from "cheerio";
+import { extractArticleText } from "./article.js";
+
+const DEFAULT_TITLE_SELECTORS = ["h2 a", "h3 a", "a"];
+
+// HTML listing pages. `listing.containers` are tried in order until one yields
+// articles; inside each container the first matching title selector wins.
+export function createHtmlAdapter(config) {
+  const listing = config.listing || {};
+  const containers = listing.containers || ["article"];
+  const titleSelectors = listing.titleSelectors || DEFAULT_TITLE_SELECTORS;
+  const minTitleLength = listing.minTitleLength ?? 10;
+  const baseUrl = listing.baseUrl || new URL(config.url).origin;
+
+  async function listItems(count) {
+    try {
+      console.log(`🌐 [${config.id}] Scraping listing page...`);
+      const res = await http.get(config.url, {
+        scrape: true,
+        headers: { "User-Agent": "Mozilla/5.0" },
+        timeout: config.timeout ?? 15000
+      });
+
+      if (!res.data) {
+        throw new Error("Empty response from listing page");
+      }
+
+      const $ = cheerio.load(res.data);
+
+      for (const selector of containers) {
+        const articles = [];
+
+        try {
+          $(selector).each((_, el) => {
+            try {
+              let title;
+              let link;
+
+              for (const titleSelector of titleSelectors) {
+                const anchor = $(el).find(titleSelector).first();
+                title = anchor.text().trim();
+                link = anchor.attr("href");
+                if (title && link) break;
+              }
+
+              if (link && !link.startsWith("http")) {
+                link = new URL(link, baseUrl).toString();
+              }
+
+              if (title && link && title.length > minTitleLength) {
+                articles.push({ title, link });
+              }
+            } catch (error) {
+              console.warn("⚠️ Error processing article element:", error.message);
+            }
+          });
+
+          if (articles.length > 0) {
+            console.log(`✅ [${config.id}] Scraped ${articles.length} articles`);
+            return articles.slice(0, count);
+          }
+        } catch (error) {
+          console.warn(`⚠️ Error with selector "${selector}":`, error.message);
+          continue;
+        }
+      }
+
+      return [];
+    } catch (error) {
+      if (error.code === 'ECONNABORTED') {
+        console.error(`❌ [${config.id}] Scraping timeout`);
+      } else if (error.code === 'ENOTFOUND') {
+        console.error(`❌ [${config.id}] Scraping failed - network error`);
+      } else {
+        console.error(`❌ [${config.id}] Error scraping listing:`, error.message);
+      }
+      return [];
+    }
+  }
+
+  return {
+    listItems,
+    extractArticle: (link) => extractArticleText(link, config.article),
+  };
+}
@@ -0,0 +1,81 @@
+import { createRssAdapter } from "./rss.js";
+import { createAtomAdapter } from "./atom.js";
+import { createHtmlAdapter } from "./html.js";
+
+// Every adapter exposes the same two operations:
+//   listItems(count)     -> [{ title, link }]
+//   extractArticle(link) -> full article text ("" when unavailable)
+const ADAPTERS = {
+  rss: createRssAdapter,
+  atom: createAtomAdapter,
+  html: createHtmlAdapter,
+};
+
+export function createSourceAdapter(config) {
+  if (!config?.id || !config?.url) {
+    throw new Error("Source config requires an id and a url");
+  }
+
+  const factory = ADAPTERS[config.type];
+  if (!factory) {
+    throw new Error(`Unknown source type "${config.type}" for source "${config.id}"`);
+  }
+
+  const adapter = factory(config);
+  return {
+    id: config.id,
+    name: config.name || config.id,
+    type: config.type,
+    url: config.url,
+    limit: config.limit,
+    fallback: config.fallback ? createSourceAdapter(config.fallback) : null,
+    ...adapter,
+  };
+}
+
+// `configs` is the `sources` section of the pipeline config.
+export function createSources(configs) {
+  return configs
+    .filter((config) => config.enabled !== false)
+    .map(createSourceAdapter);
+}
+
+// Lists items from a source, dropping to its fallback when the primary
+// returns nothing. Each item is tagged with the adapter that produced it so
+// the full text is later extracted with the same source's selectors.
+export async function collectItems(source, count) {
+  const limit = source.limit ?? count;
+  let items = await source.listItems(limit);
+  let origin = source;
+
+  if (!items.length && source.fallback) {
+    console.log(`❌ [${source.id}] returned nothing. Trying fallback "${source.fallback.id}"...`);
+    origin = source.fallback;
+    items = await origin.listItems(origin.limit ?? limit);
+  }
+
+  return items.map((item) => ({
+    ...item,
+    source: { id: origin.id, name: origin.name },
+    adapter: origin,
+  }));
+}
+
+// Picks the adapter a link should be extracted with: the source with the
+// given id if it is still configured, else the one whose feed lives on the
+// same host (links forced from the command line carry no source id).
+export function findSourceForLink(sources, link, sourceId) {
+  const candidates = sources.flatMap((source) => [source, source.fallback].filter(Boolean));
+  const byId = sourceId && candidates.find((candidate) => candidate.id === sourceId);
+  if (byId) return byId;
+
+  const domainOf = (url) => new URL(url).hostname.replace(/^www\./, "");
+  try {
+    const host = domainOf(link);
+    const byHost = candidates.find((candidate) => domainOf(candidate.url) === host);
+    if (byHost) return byHost;
+  } catch {
+    // fall through to the first source
+  }
+  return sources[0];
+}
@@ -0,0 +1,61 @@
+import { http } from "../http.js";
+import * as xml2js from "xml2js";
+import { extractArticleText } from "./article.js";
+
+// RSS 2.0 feeds: <rss><channel><item><title/><link/></item></channel></rss>
+export function createRssAdapter(config) {
+  async function listItems(count) {
+    try {
+      console.log(`📡 [${config.id}] Fetching RSS feed...`);
+      const res = await http.get(config.url, {
+        scrape: true,
+        timeout: config.timeout ?? 10000,
+        headers: { "User-Agent": "Mozilla/5.0" }
+      });
+
+      if (!res.data) {
+        throw new Error("Empty response from RSS feed");
+      }
+
+      const parsed = await xml2js.parseStringPromise(res.data);
+
+      if (!parsed?.rss?.channel?.[0]?.item) {
+        throw new Error("Invalid RSS structure");
+      }
+
+      const items = parsed.rss.channel[0].item;
+      const articles = items.slice(0, count)
+        .map((item) => {
+          try {
+            const title = item.title?.[0];
+            const link = typeof item.link?.[0] === 'string' ? item.link[0].trim() : null;
+            if (!title || !link) {
+              return null;
+            }
+            return { title: String(title).trim(), link };
+          } catch (error) {
+            console.warn("⚠️ Skipping malformed RSS item:", error.message);
+            return null;
+          }
+        })
+        .filter(Boolean);
+
+      console.log(`✅ [${config.id}] Fetched ${articles.length} articles from RSS`);
+      return articles;
+    } catch (error) {
+      if (error.code === 'ECONNABORTED') {
+        console.error(`❌ [${config.id}] RSS fetch timeout - server took too long to respond`);
+      } else if (error.code === 'ENOTFOUND') {
+        console.error(`❌ [${config.id}] RSS fetch failed - network/DNS error`);
+      } else {
+        console.error(`❌ [${config.id}] Error fetching RSS:`, error.message);
+      }
+      return [];
+    }
+  }
+
+  return {
+    listItems,
+    extractArticle: (link) => extractArticleText(link, config.article),
+  };
+}
@@ -0,0 +1,138 @@
+import { toPlainText } from "./markdown.js";
+
+// Checks a rewrite against what the prompt asked for: length, sentence
+// length, reading grade, a summary sentence up front and no chatter around
+// the article. Each problem is phrased as an instruction so it can be quoted
+// back to the model when re-prompting.
+
+// A lead shorter than this cannot say who did what
+const MIN_LEAD_WORDS = 8;
+// Long sentences quoted back to the model when re-prompting
+const MAX_QUOTED_SENTENCES = 3;
+
+// Chatter models put around the article instead of in it
+const PREAMBLE = [
+  /^(sure|certainly|of course|okay|ok|absolutely)\b/i,
+  /^(here is|here's|below is|the following is)\b/i,
+  /\b(rewritten|revised|paraphrased) (news )?(article|version|report|text)\b/i,
+  /^as an ai\b/i,
+];
+const POSTAMBLE = [
+  /\b(let me know|i hope this|feel free to)\b/i,
+  /^(note|word count)\s*:/i,
+];
+
+function words(text = "") {
+  return text.match(/[\p{L}\p{N}]+(?:['’.,][\p{L}\p{N}]+)*/gu) || [];
+}
+
+// Vowel groups, less a silent final "e"; close enough for a grade estimate.
+function syllables(word) {
+  const letters = word.toLowerCase().replace(/[^a-z]/g, "");
+  if (letters.length <= 3) return 1;
+  const groups = letters
+    .replace(/(?:[^laeiouy]es|[^laeiouy]ed|[^laeiouy]e)$/, "")
+    .replace(/^y/, "")
+    .match(/[aeiouy]{1,2}/g);
+  return Math.max(1, groups?.length || 0);
+}
+
+// Sentences end at . ! or ? followed by a capital, a digit or an opening
+// quote, so decimals and most abbreviations do not split them.
+function sentences(text) {
+  return text
+    .split(/(?<=[.!?]["'”’)\]]*)\s+(?=["'“‘(]?[\p{Lu}\p{N}])/u)
+    .map((sentence) => sentence.trim())
+    .filter((sentence) => words(sentence).length);
+}
+
+function matchesAny(patterns, text) {
+  return patterns.some((pattern) => pattern.test(text));
+}
+
+const round = (value) => Math.round(value * 10) / 10;
+
+export function measureStyle(markdown = "") {
+  const blocks = markdown.split(/\n{2,}/).map((block) => block.trim()).filter(Boolean);
+  // Headings and list markers are not sentences; every other block is prose
+  const prose = blocks
+    .filter((block) => !block.startsWith("#"))
+    .flatMap((block) => block.split("\n").map((line) => toPlainText(line)))
+    .flatMap(sentences);
+
+  const wordList = words(toPlainText(markdown));
+  const proseWords = prose.flatMap(words);
+  const sentenceLengths = prose.map((sentence) => words(sentence).length);
+  const averageSentenceWords = prose.length ? proseWords.length / prose.length : 0;
+  const syllablesPerWord = proseWords.length
+    ? proseWords.reduce((total, word) => total + syllables(word), 0) / proseWords.length
+    : 0;
+
+  const first = blocks[0] || "";
+  const last = blocks[blocks.length - 1] || "";
+  const leadSentence = /^(#|-|>|\d+\.)/.test(first) ? null : sentences(toPlainText(first))[0] || null;
+
+  return {
+    words: wordList.length,
+    sentences: prose.length,
+    averageSentenceWords: round(averageSentenceWords),
+    // Flesch–Kincaid grade level
+    grade: prose.length ? round(0.39 * averageSentenceWords + 11.8 * syllablesPerWord - 15.59) : 0,
+    longestSentences: prose
+      .map((sentence, index) => ({ text: sentence, words: sentenceLengths[index] }))
+      .sort((a, b) => b.words - a.words)
+      .slice(0, MAX_QUOTED_SENTENCES),
+    lead: leadSentence ? { text: leadSentence, words: words(leadSentence).length } : null,
+    preamble: matchesAny(PREAMBLE, toPlainText(first.split("\n")[0])) ? first.split("\n")[0] : null,
+    postamble: blocks.length > 1 && matchesAny(POSTAMBLE, toPlainText(last)) ? last : null,
+  };
+}
+
+// Returns the problems as instructions for the next draft; none means the
+// rewrite passes.
+export function findStyleProblems(report, limits) {
+  const problems = [];
+
+  if (report.preamble) {
+    problems.push(`Start directly with the article. Remove the introduction "${report.preamble}".`);
+  }
+  if (report.postamble) {
+    problems.push(`End with the article itself. Remove the closing remark "${report.postamble}".`);
+  }
+  if (report.words < limits.minWords || report.words > limits.maxWords) {
+    const change = report.words < limits.minWords ? "Add more of the reported facts and context" : "Cut repetition and minor details";
+    problems.push(`The draft has ${report.words} words; it must have ${limits.minWords}–${limits.maxWords}. ${change}.`);
+  }
+  if (!report.lead) {
+    problems.push("Open with a paragraph, not a heading or list, whose first sentence summarises the most important information.");
+  } else if (!report.preamble && (report.lead.words < MIN_LEAD_WORDS || report.lead.words > limits.maxSentenceWords)) {
+    problems.push(
+      `The opening sentence has ${report.lead.words} words. Make it one sentence of ${MIN_LEAD_WORDS}–${limits.maxSentenceWords} words that says who did what, when and where.`
+    );
+  }
+
+  const tooLong = report.longestSentences.filter((sentence) => sentence.words > limits.maxSentenceWords);
+  if (tooLong.length) {
+    problems.push(
+      `Split these sentences so none has more than ${limits.maxSentenceWords} words:\n${tooLong
+        .map((sentence) => `  - "${sentence.text}" (${sentence.words} words)`)
+        .join("\n")}`
+    );
+  }
+  if (report.averageSentenceWords > limits.maxAverageSentenceWords) {
+    problems.push(
+      `Sentences average ${report.averageSentenceWords} words; keep the average under ${limits.maxAverageSentenceWords}.`
+    );
+  }
+  if (report.grade > limits.maxGrade) {
+    problems.push(
+      `The text reads at grade ${report.grade}; bring it to grade ${limits.maxGrade} or below with shorter sentences and plainer words.`
+    );
+  }
+
+  return problems;
+}
+
+export function describeStyle(report) {
+  return `${report.words} words, ${report.sentences} sentences averaging ${report.averageSentenceWords} words, grade ${report.grade}`;
+}
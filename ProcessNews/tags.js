@@ -0,0 +1,42 @@
+import { renderPrompt } from "./prompts.js";
+
+export const TAG_KINDS = ["person", "organisation", "place", "topic"];
+export const MAX_TAGS = 8;
+
+export function tagSlug(name) {
+  return name
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/(^-|-$)+/g, "");
+}
+
+export function buildTagPrompt(template, title, content) {
+  return renderPrompt(template, { title, content: content.slice(0, 4000), maxTags: MAX_TAGS });
+}
+
+// Keeps well-formed entries of a known kind, one per slug. Returns [] when
+// the reply holds no JSON array: tags are nice to have, not worth failing on.
+export function parseTags(reply) {
+  const match = reply.match(/\[[\s\S]*\]/);
+  if (!match) return [];
+
+  let entries;
+  try {
+    entries = JSON.parse(match[0]);
+  } catch {
+    return [];
+  }
+  if (!Array.isArray(entries)) return [];
+
+  const tags = new Map();
+  for (const entry of entries) {
+    const name = typeof entry?.name === "string" ? entry.name.trim() : "";
+    const kind = typeof entry?.kind === "string" ? entry.kind.toLowerCase().replace("organization", "organisation") : "";
+    const slug = tagSlug(name);
+    if (!slug || !TAG_KINDS.includes(kind) || tags.has(slug)) continue;
+    tags.set(slug, { name, slug, kind });
+  }
+  return [...tags.values()].slice(0, MAX_TAGS);
+}
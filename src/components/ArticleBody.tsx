@@ -0,0 +1,76 @@
+import { Fragment } from "react";
+import { parseInline, parseMarkdown, type InlineNode } from "@/lib/markdown";
+
+interface ArticleBodyProps {
+  content: string;
+}
+
+function Inline({ nodes }: { nodes: InlineNode[] }) {
+  return (
+    <>
+      {nodes.map((node, index) => {
+        if (node.type === "strong") return <strong key={index}><Inline nodes={node.children} /></strong>;
+        if (node.type === "em") return <em key={index}><Inline nodes={node.children} /></em>;
+        return <Fragment key={index}>{node.text}</Fragment>;
+      })}
+    </>
+  );
+}
+
+/** Renders an article body stored as Markdown; the first paragraph is the lead. */
+export function ArticleBody({ content }: ArticleBodyProps) {
+  const blocks = parseMarkdown(content);
+  const leadIndex = blocks.findIndex((block) => block.type === "paragraph");
+
+  return (
+    <div className="text-foreground">
+      {blocks.map((block, index) => {
+        switch (block.type) {
+          case "heading":
+            return block.level === 2 ? (
+              <h2 key={index} className="text-2xl font-bold mt-8 mb-3">
+                <Inline nodes={parseInline(block.text)} />
+              </h2>
+            ) : (
+              <h3 key={index} className="text-xl font-semibold mt-6 mb-2">
+                <Inline nodes={parseInline(block.text)} />
+              </h3>
+            );
+
+          case "list": {
+            const List = block.ordered ? "ol" : "ul";
+            return (
+              <List
+                key={index}
+                className={`${block.ordered ? "list-decimal" : "list-disc"} pl-6 mb-5 space-y-2 text-lg leading-relaxed`}
+              >
+                {block.items.map((item, itemIndex) => (
+                  <li key={itemIndex}>
+                    <Inline nodes={parseInline(item)} />
+                  </li>
+                ))}
+              </List>
+            );
+          }
+
+          case "quote":
+            return (
+              <blockquote key={index} className="border-l-4 border-primary pl-4 my-6 italic text-lg text-muted-foreground">
+                <Inline nodes={parseInline(block.text)} />
+              </blockquote>
+            );
+
+          default:
+            return (
+              <p
+                key={index}
+                className={index === leadIndex ? "text-xl font-medium leading-relaxed mb-6" : "text-lg leading-relaxed mb-5"}
+              >
+                <Inline nodes={parseInline(block.text)} />
+              </p>
+            );
+        }
+      })}
+    </div>
+  );
+}
@@ -1,27 +1,50 @@
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Clock } from "lucide-react";
+import { ResponsiveImage } from "@/components/ResponsiveImage";
+import { toPlainText } from "@/lib/markdown";
+import type { HeadlineVariant } from "@/lib/headlines";
+import { useHeadlineVariant } from "@/hooks/use-headline-variant";
+import type { Json } from "@/integrations/supabase/types";
 
-interface ArticleCardProps {
+/** What a card shows of an article; rows from useInfiniteArticles fit it as they are. */
+export interface CardArticle {
   id: string;
   title: string;
   content: string;
+  summary?: string;
+  image_path?: string;
+  /** Full image URL of articles published before image_path */
   image_url?: string;
+  image_renditions?: Json;
+  image_alt?: string;
+  image_placeholder?: string;
+  /** Headlines under test; each reader is shown one of them instead of the title */
+  headline_variants?: HeadlineVariant[];
   published_at: string;
   slug: string;
+}
+
+interface ArticleCardProps {
+  article: CardArticle;
   onClick?: () => void;
   variant?: 'default' | 'featured' | 'compact' | 'large' | 'medium' | 'small';
 }
 
-export function ArticleCard({ 
-  title, 
-  content, 
-  image_url, 
-  published_at, 
-  slug,
-  onClick,
-  variant = 'default'
-}: ArticleCardProps) {
+export function ArticleCard({ article, onClick, variant = 'default' }: ArticleCardProps) {
+  const {
+    id,
+    title,
+    content,
+    summary,
+    image_path,
+    image_url,
+    image_renditions,
+    image_alt,
+    image_placeholder,
+    headline_variants,
+    published_at,
+  } = article;
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleDateString('en-US', {
       year: 'numeric',
@@ -32,20 +55,36 @@ export function ArticleCard({
     });
   };
 
+  // Fallback for articles published before summaries were generated
   const truncateContent = (text: string, maxLength: number = variant === 'featured' ? 200 : 120) => {
     if (text.length <= maxLength) return text;
-    return text.substring(0, maxLength) + '...';
+    const cut = text.substring(0, maxLength);
+    return cut.substring(0, cut.lastIndexOf(' ') > 0 ? cut.lastIndexOf(' ') : maxLength) + '...';
   };
 
+  const image = image_path || image_url;
+  const { headline, ref, trackClick } = useHeadlineVariant<HTMLDivElement>(id, title, headline_variants);
+
+  const handleClick = () => {
+    trackClick();
+    onClick?.();
+  };
+
+  const dek = (maxLength?: number) => summary || truncateContent(toPlainText(content), maxLength);
+
   if (variant === 'featured') {
     return (
-      <Card className="overflow-hidden cursor-pointer hover:shadow-lg transition-all duration-300 group col-span-2 row-span-2" onClick={onClick}>
+      <Card className="overflow-hidden cursor-pointer hover:shadow-lg transition-all duration-300 group col-span-2 row-span-2" onClick={handleClick} ref={ref}>
         <div className="relative h-full flex flex-col">
-          {image_url && (
+          {image && (
             <div className="aspect-[16/10] overflow-hidden">
-              <img 
-                src={image_url} 
-                alt={title}
+              <ResponsiveImage
+                src={image}
+                renditions={image_renditions}
+                placeholder={image_placeholder}
+                alt={image_alt || headline}
+                sizes="50vw"
+                loading="eager"
                 className="w-full h-full object-cover group-hover:scale-105 transition-transform duration-300"
               />
             </div>
@@ -58,11 +97,11 @@ export function ArticleCard({
             </div>
             
             <h2 className="text-2xl font-bold mb-3 text-foreground group-hover:text-primary transition-colors">
-              {title}
+              {headline}
             </h2>
             
             <p className="text-muted-foreground leading-relaxed line-clamp-4">
-              {truncateContent(content, 250)}
+              {dek(250)}
             </p>
           </CardContent>
         </div>
@@ -73,21 +112,25 @@ export function ArticleCard({
   if (variant === 'compact') {
     return (
       <div 
+        ref={ref}
         className="flex gap-3 p-3 cursor-pointer hover:bg-muted/50 rounded-lg transition-colors" 
-        onClick={onClick}
+        onClick={handleClick}
       >
-        {image_url && (
+        {image && (
           <div className="flex-shrink-0">
-            <img 
-              src={image_url} 
-              alt={title}
+            <ResponsiveImage
+              src={image}
+              renditions={image_renditions}
+              placeholder={image_placeholder}
+              alt={image_alt || headline}
+              sizes="80px"
               className="w-20 h-16 object-cover rounded"
             />
           </div>
         )}
         <div className="flex-1 min-w-0">
           <h3 className="font-medium text-sm leading-tight hover:text-primary transition-colors line-clamp-2 mb-1">
-            {title}
+            {headline}
           </h3>
           <div className="flex items-center gap-2 text-xs text-muted-foreground">
             <Clock className="w-3 h-3" />
@@ -100,13 +143,16 @@ export function ArticleCard({
 
   if (variant === 'large') {
     return (
-      <Card className="overflow-hidden cursor-pointer hover:shadow-lg transition-all duration-300 group col-span-2" onClick={onClick}>
+      <Card className="overflow-hidden cursor-pointer hover:shadow-lg transition-all duration-300 group col-span-2" onClick={handleClick} ref={ref}>
         <div className="flex h-full">
-          {image_url && (
+          {image && (
             <div className="w-1/2 overflow-hidden">
-              <img 
-                src={image_url} 
-                alt={title}
+              <ResponsiveImage
+                src={image}
+                renditions={image_renditions}
+                placeholder={image_placeholder}
+                alt={image_alt || headline}
+                sizes="25vw"
                 className="w-full h-full object-cover group-hover:scale-105 transition-transform duration-300"
               />
             </div>
@@ -119,11 +165,11 @@ export function ArticleCard({
             </div>
             
             <h3 className="font-bold mb-2 text-foreground group-hover:text-primary transition-colors line-clamp-3">
-              {title}
+              {headline}
             </h3>
             
             <p className="text-sm text-muted-foreground line-clamp-3">
-              {truncateContent(content, 150)}
+              {dek(150)}
             </p>
           </CardContent>
         </div>
@@ -133,12 +179,15 @@ export function ArticleCard({
 
   if (variant === 'medium') {
     return (
-      <Card className="overflow-hidden cursor-pointer hover:shadow-lg transition-all duration-300 group" onClick={onClick}>
-        {image_url && (
+      <Card className="overflow-hidden cursor-pointer hover:shadow-lg transition-all duration-300 group" onClick={handleClick} ref={ref}>
+        {image && (
           <div className="aspect-[4/3] overflow-hidden">
-            <img 
-              src={image_url} 
-              alt={title}
+            <ResponsiveImage
+              src={image}
+              renditions={image_renditions}
+              placeholder={image_placeholder}
+              alt={image_alt || headline}
+              sizes="25vw"
               className="w-full h-full object-cover group-hover:scale-105 transition-transform duration-300"
             />
           </div>
@@ -151,11 +200,11 @@ export function ArticleCard({
           </div>
           
           <h3 className="font-semibold mb-2 text-foreground group-hover:text-primary transition-colors line-clamp-2">
-            {title}
+            {headline}
           </h3>
           
           <p className="text-sm text-muted-foreground line-clamp-2">
-            {truncateContent(content, 100)}
+            {dek(100)}
           </p>
         </CardContent>
       </Card>
@@ -164,13 +213,16 @@ export function ArticleCard({
 
   if (variant === 'small') {
     return (
-      <Card className="overflow-hidden cursor-pointer hover:shadow-lg transition-all duration-300 group" onClick={onClick}>
+      <Card className="overflow-hidden cursor-pointer hover:shadow-lg transition-all duration-300 group" onClick={handleClick} ref={ref}>
         <div className="flex gap-3 p-4">
-          {image_url && (
+          {image && (
             <div className="w-20 h-16 flex-shrink-0 overflow-hidden rounded">
-              <img 
-                src={image_url} 
-                alt={title}
+              <ResponsiveImage
+                src={image}
+                renditions={image_renditions}
+                placeholder={image_placeholder}
+                alt={image_alt || headline}
+                sizes="80px"
                 className="w-full h-full object-cover group-hover:scale-105 transition-transform duration-300"
               />
             </div>
@@ -183,7 +235,7 @@ export function ArticleCard({
             </div>
             
             <h3 className="font-medium text-sm text-foreground group-hover:text-primary transition-colors line-clamp-2">
-              {title}
+              {headline}
             </h3>
           </div>
         </div>
@@ -193,14 +245,18 @@ export function ArticleCard({
 
   return (
     <Card 
+      ref={ref}
       className="cursor-pointer hover:shadow-lg transition-shadow duration-200" 
-      onClick={onClick}
+      onClick={handleClick}
     >
-      {image_url && (
+      {image && (
         <div className="aspect-video w-full overflow-hidden rounded-t-lg">
-          <img 
-            src={image_url} 
-            alt={title}
+          <ResponsiveImage
+            src={image}
+            renditions={image_renditions}
+            placeholder={image_placeholder}
+            alt={image_alt || headline}
+            sizes="(min-width: 768px) 50vw, 100vw"
             className="w-full h-full object-cover hover:scale-105 transition-transform duration-200"
           />
         </div>
@@ -211,12 +267,12 @@ export function ArticleCard({
           <span>{formatDate(published_at)}</span>
         </div>
         <CardTitle className="line-clamp-2 hover:text-primary transition-colors">
-          {title}
+          {headline}
         </CardTitle>
       </CardHeader>
       <CardContent>
         <p className="text-muted-foreground line-clamp-3">
-          {truncateContent(content)}
+          {dek()}
         </p>
         <Badge variant="secondary" className="mt-3">
           Read More
@@ -224,4 +280,61 @@ export function ArticleCard({
       </CardContent>
     </Card>
   );
-}
\ No newline at end of file
+}
+
+/** Loading placeholder with the same box as the matching ArticleCard variant. */
+export function ArticleCardSkeleton({ variant }: { variant: 'featured' | 'large' | 'medium' | 'small' }) {
+  if (variant === 'featured') {
+    return (
+      <Card className="overflow-hidden col-span-2 row-span-2 animate-pulse">
+        <div className="aspect-[16/10] bg-muted"></div>
+        <CardContent className="p-6">
+          <div className="h-4 bg-muted rounded w-1/3 mb-3"></div>
+          <div className="h-7 bg-muted rounded w-5/6 mb-3"></div>
+          <div className="h-4 bg-muted rounded w-full mb-2"></div>
+          <div className="h-4 bg-muted rounded w-2/3"></div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (variant === 'large') {
+    return (
+      <Card className="overflow-hidden col-span-2 animate-pulse">
+        <div className="flex h-full">
+          <div className="w-1/2 bg-muted min-h-[10rem]"></div>
+          <CardContent className="p-4 flex-1">
+            <div className="h-3 bg-muted rounded w-1/3 mb-2"></div>
+            <div className="h-5 bg-muted rounded w-full mb-2"></div>
+            <div className="h-4 bg-muted rounded w-2/3"></div>
+          </CardContent>
+        </div>
+      </Card>
+    );
+  }
+
+  if (variant === 'small') {
+    return (
+      <Card className="overflow-hidden animate-pulse">
+        <div className="flex gap-3 p-4">
+          <div className="w-20 h-16 flex-shrink-0 bg-muted rounded"></div>
+          <div className="flex-1">
+            <div className="h-3 bg-muted rounded w-1/3 mb-2"></div>
+            <div className="h-4 bg-muted rounded w-full"></div>
+          </div>
+        </div>
+      </Card>
+    );
+  }
+
+  return (
+    <Card className="overflow-hidden animate-pulse">
+      <div className="aspect-[4/3] bg-muted"></div>
+      <CardContent className="p-4">
+        <div className="h-3 bg-muted rounded w-1/3 mb-2"></div>
+        <div className="h-4 bg-muted rounded w-full mb-2"></div>
+        <div className="h-3 bg-muted rounded w-2/3"></div>
+      </CardContent>
+    </Card>
+  );
+}
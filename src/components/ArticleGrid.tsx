@@ -0,0 +1,87 @@
+import type { RefObject } from "react";
+import { ArticleCard, ArticleCardSkeleton, type CardArticle } from "@/components/ArticleCard";
+import { Loader2, Newspaper } from "lucide-react";
+
+interface ArticleGridProps {
+  articles: CardArticle[];
+  loading: boolean;
+  loadingMore: boolean;
+  hasMore: boolean;
+  observerRef: RefObject<HTMLDivElement>;
+  emptyMessage: string;
+  endMessage: string;
+  onArticleClick: (slug: string) => void;
+}
+
+/** Grid of article cards with the infinite scroll trigger from useInfiniteArticles. */
+export function ArticleGrid({
+  articles,
+  loading,
+  loadingMore,
+  hasMore,
+  observerRef,
+  emptyMessage,
+  endMessage,
+  onArticleClick,
+}: ArticleGridProps) {
+  if (loading) {
+    return (
+      <div className="grid grid-cols-4 gap-4">
+        {Array.from({ length: 8 }).map((_, i) => (
+          <ArticleCardSkeleton key={i} variant="medium" />
+        ))}
+      </div>
+    );
+  }
+
+  if (articles.length === 0) {
+    return (
+      <div className="text-center py-12">
+        <Newspaper className="w-16 h-16 text-muted-foreground mx-auto mb-4" />
+        <h2 className="text-xl font-semibold text-foreground mb-2">No Articles Yet</h2>
+        <p className="text-muted-foreground">{emptyMessage}</p>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <div className="grid grid-cols-4 gap-4">
+        {articles.map((article) => (
+          <ArticleCard
+            key={article.id}
+            article={article}
+            variant="medium"
+            onClick={() => onArticleClick(article.slug)}
+          />
+        ))}
+      </div>
+
+      {/* Infinite Scroll Trigger and Loading Indicator */}
+      <div className="mt-8">
+        {loadingMore && (
+          <div className="flex justify-center items-center py-8">
+            <Loader2 className="w-6 h-6 animate-spin text-primary mr-2" />
+            <span className="text-muted-foreground">Loading more articles...</span>
+          </div>
+        )}
+
+        {hasMore && !loadingMore && (
+          <div
+            ref={observerRef}
+            className="flex justify-center items-center py-8 min-h-[100px]"
+          >
+            <p className="text-sm text-muted-foreground">Scroll to load more...</p>
+          </div>
+        )}
+
+        {!hasMore && (
+          <div className="text-center py-8 text-muted-foreground">
+            <Newspaper className="w-8 h-8 mx-auto mb-2 opacity-50" />
+            <p>{endMessage}</p>
+          </div>
+        )}
+      </div>
+    </>
+  );
+}
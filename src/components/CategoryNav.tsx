@@ -0,0 +1,34 @@
+import { Link } from "react-router-dom";
+import { useCategories } from "@/hooks/use-categories";
+import { cn } from "@/lib/utils";
+
+interface CategoryNavProps {
+  activeSlug?: string;
+}
+
+export function CategoryNav({ activeSlug }: CategoryNavProps) {
+  const categories = useCategories();
+
+  return (
+    <nav className="bg-primary text-primary-foreground">
+      <div className="container mx-auto px-4">
+        <div className="flex items-center justify-between h-12 text-sm">
+          <div className="flex items-center space-x-6">
+            {categories.map((category) => (
+              <Link
+                key={category.id}
+                to={`/category/${category.slug}`}
+                className={cn(
+                  "uppercase hover:opacity-80 transition-opacity",
+                  category.slug === activeSlug && "font-bold underline underline-offset-4"
+                )}
+              >
+                {category.name}
+              </Link>
+            ))}
+          </div>
+        </div>
+      </div>
+    </nav>
+  );
+}
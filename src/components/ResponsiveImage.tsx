@@ -0,0 +1,66 @@
+import { useState } from "react";
+import type { Json } from "@/integrations/supabase/types";
+import { RENDITION_FORMATS, buildSrcSet, imageSrc, readRenditions } from "@/lib/images";
+
+interface ResponsiveImageProps {
+  /** Storage object path, or the full URL of an older article */
+  src: string;
+  renditions?: Json;
+  /** Tiny data URL shown until the image has decoded */
+  placeholder?: string;
+  alt: string;
+  /** Rendered width of the image, so the browser can pick a rendition */
+  sizes: string;
+  className?: string;
+  loading?: "lazy" | "eager";
+}
+
+/**
+ * Article image that serves AVIF/WebP renditions through srcset when the
+ * article has them, falling back to the original upload. Width and height
+ * come from the largest rendition so the box is reserved before it loads,
+ * and the placeholder fills it until the image has decoded.
+ */
+export function ResponsiveImage({
+  src,
+  renditions,
+  placeholder,
+  alt,
+  sizes,
+  className,
+  loading = "lazy",
+}: ResponsiveImageProps) {
+  const [decodedSrc, setDecodedSrc] = useState<string>();
+  const available = readRenditions(renditions);
+  const largest = available[available.length - 1];
+  const showPlaceholder = placeholder && decodedSrc !== src;
+
+  return (
+    <picture>
+      {RENDITION_FORMATS.map((format) => {
+        const srcSet = buildSrcSet(available, format);
+        return srcSet ? <source key={format} type={`image/${format}`} srcSet={srcSet} sizes={sizes} /> : null;
+      })}
+      <img
+        src={imageSrc(src)}
+        alt={alt}
+        width={largest?.width}
+        height={largest?.height}
+        loading={loading}
+        decoding="async"
+        onLoad={(event) => {
+          event.currentTarget
+            .decode()
+            .catch(() => undefined)
+            .then(() => setDecodedSrc(src));
+        }}
+        style={
+          showPlaceholder
+            ? { backgroundImage: `url(${placeholder})`, backgroundSize: "cover", backgroundPosition: "center" }
+            : undefined
+        }
+        className={className}
+      />
+    </picture>
+  );
+}
@@ -1,4 +1,8 @@
+import { Link } from "react-router-dom";
 import { Badge } from "@/components/ui/badge";
+import { ResponsiveImage } from "@/components/ResponsiveImage";
+import { useCategories } from "@/hooks/use-categories";
+import type { Json } from "@/integrations/supabase/types";
 import { Clock, TrendingUp } from "lucide-react";
 
 interface SidebarArticle {
@@ -6,7 +10,11 @@ interface SidebarArticle {
   title: string;
   slug: string;
   published_at: string;
+  image_path?: string;
   image_url?: string;
+  image_renditions?: Json;
+  image_alt?: string;
+  summary?: string;
 }
 
 interface SidebarProps {
@@ -15,6 +23,8 @@ interface SidebarProps {
 }
 
 export function Sidebar({ articles, onArticleClick }: SidebarProps) {
+  const categories = useCategories();
+
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleDateString('en-US', {
       month: 'short',
@@ -43,6 +53,7 @@ export function Sidebar({ articles, onArticleClick }: SidebarProps) {
             <div
               key={article.id}
               onClick={() => onArticleClick(article.slug)}
+              title={article.summary}
               className="flex gap-3 cursor-pointer hover:bg-muted/50 p-2 rounded-md transition-colors"
             >
               <div className="flex-shrink-0">
@@ -74,13 +85,16 @@ export function Sidebar({ articles, onArticleClick }: SidebarProps) {
             <div
               key={article.id}
               onClick={() => onArticleClick(article.slug)}
+              title={article.summary}
               className="flex gap-3 cursor-pointer hover:bg-muted/50 p-2 rounded-md transition-colors"
             >
-              {article.image_url && (
+              {(article.image_path || article.image_url) && (
                 <div className="flex-shrink-0">
-                  <img
-                    src={article.image_url}
-                    alt={article.title}
+                  <ResponsiveImage
+                    src={article.image_path || article.image_url}
+                    renditions={article.image_renditions}
+                    alt={article.image_alt || article.title}
+                    sizes="64px"
                     className="w-16 h-12 object-cover rounded"
                   />
                 </div>
@@ -105,10 +119,12 @@ export function Sidebar({ articles, onArticleClick }: SidebarProps) {
         <h2 className="font-bold text-lg mb-4">Categories</h2>
         
         <div className="flex flex-wrap gap-2">
-          {['Politics', 'Sports', 'Technology', 'Business', 'Entertainment', 'Health'].map((category) => (
-            <Badge key={category} variant="secondary" className="cursor-pointer hover:bg-primary hover:text-primary-foreground transition-colors">
-              {category}
-            </Badge>
+          {categories.map((category) => (
+            <Link key={category.id} to={`/category/${category.slug}`}>
+              <Badge variant="secondary" className="cursor-pointer hover:bg-primary hover:text-primary-foreground transition-colors">
+                {category.name}
+              </Badge>
+            </Link>
           ))}
         </div>
       </div>
@@ -0,0 +1,32 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+
+export interface CategoryLink {
+  id: string;
+  slug: string;
+  name: string;
+}
+
+/** Categories in navigation order; empty until loaded or if loading fails. */
+export function useCategories() {
+  const [categories, setCategories] = useState<CategoryLink[]>([]);
+
+  useEffect(() => {
+    const fetchCategories = async () => {
+      const { data, error } = await supabase
+        .from('categories')
+        .select('id, slug, name')
+        .order('position', { ascending: true });
+
+      if (error) {
+        console.error('Error fetching categories:', error);
+        return;
+      }
+      setCategories(data || []);
+    };
+
+    fetchCategories();
+  }, []);
+
+  return categories;
+}
@@ -0,0 +1,38 @@
+import { useCallback, useEffect, useMemo, useRef } from "react";
+import { pickVariant, recordClick, recordImpression, type HeadlineVariant } from "@/lib/headlines";
+
+/**
+ * Headline test for one article card: the headline to show this reader, a
+ * ref for the card (an impression is counted once half of it is on screen)
+ * and a click tracker. Without running variants it returns the title and
+ * counts nothing.
+ */
+export function useHeadlineVariant<T extends HTMLElement>(articleId: string, title: string, variants?: HeadlineVariant[] | null) {
+  const variant = useMemo(() => pickVariant(articleId, variants), [articleId, variants]);
+  const ref = useRef<T>(null);
+
+  useEffect(() => {
+    const element = ref.current;
+    if (!variant || !element) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((entry) => entry.isIntersecting)) {
+          recordImpression(variant.id);
+          observer.disconnect();
+        }
+      },
+      { threshold: 0.5 }
+    );
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [variant]);
+
+  const trackClick = useCallback(() => {
+    if (!variant) return;
+    recordImpression(variant.id);
+    recordClick(variant.id);
+  }, [variant]);
+
+  return { headline: variant?.headline ?? title, ref, trackClick };
+}
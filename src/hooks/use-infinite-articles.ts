@@ -0,0 +1,192 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "@/components/ui/use-toast";
+import type { Tables } from "@/integrations/supabase/types";
+import type { HeadlineVariant } from "@/lib/headlines";
+
+export const ARTICLES_PER_PAGE = 20;
+
+/** An article with the headlines of its running headline test, if any. */
+export type ListedArticle = Tables<"articles"> & { headline_variants: HeadlineVariant[] };
+
+interface UseInfiniteArticlesOptions {
+  /** Only list articles in this category */
+  categoryId?: string;
+  /** Only list articles carrying this tag */
+  tagId?: string;
+  /** Hold off fetching until the filters are known */
+  enabled?: boolean;
+  /** Stop loading further pages, e.g. while a search filters the loaded ones */
+  paused?: boolean;
+}
+
+/**
+ * Pages through published articles, newest first, loading the next page
+ * when the element behind `observerRef` scrolls into view.
+ */
+export function useInfiniteArticles({ categoryId, tagId, enabled = true, paused = false }: UseInfiniteArticlesOptions = {}) {
+  const [articles, setArticles] = useState<ListedArticle[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [hasMore, setHasMore] = useState(true);
+  const [page, setPage] = useState(0);
+  const observerRef = useRef<HTMLDivElement>(null);
+  const isLoadingRef = useRef(false);
+  // Bumped on every reset so responses for a previous filter are dropped
+  const generationRef = useRef(0);
+
+  // The filter the loaded list belongs to, null while disabled. Reset during
+  // render rather than in an effect, so a new category or tag never renders
+  // above the previous one's articles.
+  const filterKey = enabled ? `${categoryId ?? ''}:${tagId ?? ''}` : null;
+  const [listedKey, setListedKey] = useState(filterKey);
+  if (listedKey !== filterKey) {
+    setListedKey(filterKey);
+    setArticles([]);
+    setPage(0);
+    setHasMore(true);
+    setLoading(true);
+  }
+
+  const fetchArticles = async (pageNum: number = 0, append: boolean = false) => {
+    if (isLoadingRef.current) return;
+    const generation = generationRef.current;
+
+    try {
+      isLoadingRef.current = true;
+
+      if (!append) setLoading(true);
+      else setLoadingMore(true);
+
+      const from = pageNum * ARTICLES_PER_PAGE;
+      const to = from + ARTICLES_PER_PAGE - 1;
+
+      console.log(`Fetching articles: page ${pageNum}, from ${from} to ${to}`);
+
+      // articles and headline_variants reference each other (the test's
+      // variants, and the winner), so the embed names the foreign key it
+      // follows. For a tag, the inner join keeps only articles with a
+      // matching article_tags row.
+      const columns = `*, headline_variants!headline_variants_article_id_fkey(id, headline)${tagId ? ', article_tags!inner(tag_id)' : ''}`;
+      let query = supabase
+        .from('articles')
+        .select<string, ListedArticle>(columns, { count: 'exact' })
+        // Decided tests stop serving their variants
+        .eq('headline_variants.served', true)
+        .order('published_at', { ascending: false });
+
+      if (categoryId) {
+        query = query.eq('category_id', categoryId);
+      }
+      if (tagId) {
+        query = query.eq('article_tags.tag_id', tagId);
+      }
+
+      const { data, error, count } = await query.range(from, to);
+
+      if (generation !== generationRef.current) return;
+
+      if (error) {
+        console.error('Error fetching articles:', error);
+        toast({
+          title: "Error",
+          description: "Failed to load articles",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      const newArticles = data || [];
+      console.log(`Received ${newArticles.length} articles`);
+
+      setArticles(prev => {
+        const existingIds = new Set(append ? prev.map(article => article.id) : []);
+        const updated = append
+          ? [...prev, ...newArticles.filter(article => !existingIds.has(article.id))]
+          : newArticles;
+
+        const hasMoreArticles = count ? updated.length < count : newArticles.length === ARTICLES_PER_PAGE;
+        setHasMore(hasMoreArticles);
+
+        console.log(`Has more articles: ${hasMoreArticles}, Total loaded: ${updated.length}, Total count: ${count}`);
+        return updated;
+      });
+
+      if (!append) setPage(0);
+
+    } catch (error) {
+      console.error('Error:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load articles",
+        variant: "destructive",
+      });
+    } finally {
+      if (generation === generationRef.current) {
+        setLoading(false);
+        setLoadingMore(false);
+        isLoadingRef.current = false;
+      }
+    }
+  };
+
+  const loadMoreArticles = useCallback(() => {
+    if (isLoadingRef.current || loadingMore || !hasMore || paused || loading) {
+      return;
+    }
+
+    const nextPage = page + 1;
+    console.log(`Loading more articles - Next page: ${nextPage}, Current articles: ${articles.length}`);
+    setPage(nextPage);
+    fetchArticles(nextPage, true);
+  }, [loadingMore, hasMore, page, paused, loading, articles.length, categoryId, tagId]);
+
+  // Intersection Observer for infinite scroll
+  useEffect(() => {
+    const observer = new IntersectionObserver(
+      (entries) => {
+        const target = entries[0];
+        if (target.isIntersecting && !paused) {
+          console.log('Intersection triggered - loading more articles');
+          loadMoreArticles();
+        }
+      },
+      {
+        threshold: 0.1,
+        rootMargin: '100px',
+      }
+    );
+
+    const element = observerRef.current;
+    if (element) {
+      observer.observe(element);
+    }
+
+    return () => {
+      if (element) {
+        observer.unobserve(element);
+      }
+    };
+  }, [loadMoreArticles, paused]);
+
+  const refresh = () => {
+    generationRef.current++;
+    setArticles([]);
+    setPage(0);
+    setHasMore(true);
+    isLoadingRef.current = false;
+    fetchArticles();
+  };
+
+  useEffect(() => {
+    if (enabled) {
+      refresh();
+    } else {
+      // Drop whatever is still in flight for the previous filter
+      generationRef.current++;
+      isLoadingRef.current = false;
+    }
+  }, [enabled, categoryId, tagId]);
+
+  return { articles, loading, loadingMore, hasMore, page, observerRef, refresh };
+}
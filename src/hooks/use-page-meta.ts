@@ -0,0 +1,44 @@
+import { useEffect } from "react";
+
+interface PageMeta {
+  title?: string;
+  description?: string;
+}
+
+function setMetaContent(selector: string, content: string) {
+  const element = document.head.querySelector<HTMLMetaElement>(selector);
+  if (!element) return undefined;
+  const previous = element.content;
+  element.content = content;
+  return () => {
+    element.content = previous;
+  };
+}
+
+/**
+ * Sets the document title and the description / Open Graph meta tags from
+ * index.html while the calling page is mounted, restoring them afterwards.
+ */
+export function usePageMeta({ title, description }: PageMeta) {
+  useEffect(() => {
+    const restore: (() => void)[] = [];
+
+    if (title) {
+      const previousTitle = document.title;
+      document.title = `${title} | AutoTribune`;
+      restore.push(() => {
+        document.title = previousTitle;
+      });
+      restore.push(setMetaContent('meta[property="og:title"]', title));
+    }
+
+    if (description) {
+      restore.push(setMetaContent('meta[name="description"]', description));
+      restore.push(setMetaContent('meta[property="og:description"]', description));
+    }
+
+    return () => {
+      restore.forEach((undo) => undo?.());
+    };
+  }, [title, description]);
+}
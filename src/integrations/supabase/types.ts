@@ -16,35 +16,487 @@ export type Database = {
     Tables: {
       articles: {
         Row: {
+          category_id: string | null
+          consistency_score: number | null
           content: string
+          content_hash: string | null
           created_at: string
+          headline_decided_at: string | null
+          headline_variant_id: string | null
           id: string
+          image_alt: string | null
+          image_caption: string | null
+          image_fallback: boolean
+          image_path: string | null
+          image_placeholder: string | null
+          image_renditions: Json | null
           image_url: string | null
+          job_id: string | null
+          overlap_score: number | null
           published_at: string
           slug: string
+          source_id: string | null
+          source_url: string | null
+          summary: string | null
           title: string
           updated_at: string
         }
         Insert: {
+          category_id?: string | null
+          consistency_score?: number | null
           content: string
+          content_hash?: string | null
           created_at?: string
+          headline_decided_at?: string | null
+          headline_variant_id?: string | null
           id?: string
+          image_alt?: string | null
+          image_caption?: string | null
+          image_fallback?: boolean
+          image_path?: string | null
+          image_placeholder?: string | null
+          image_renditions?: Json | null
           image_url?: string | null
+          job_id?: string | null
+          overlap_score?: number | null
           published_at?: string
           slug: string
+          source_id?: string | null
+          source_url?: string | null
+          summary?: string | null
           title: string
           updated_at?: string
         }
         Update: {
+          category_id?: string | null
+          consistency_score?: number | null
           content?: string
+          content_hash?: string | null
           created_at?: string
+          headline_decided_at?: string | null
+          headline_variant_id?: string | null
           id?: string
+          image_alt?: string | null
+          image_caption?: string | null
+          image_fallback?: boolean
+          image_path?: string | null
+          image_placeholder?: string | null
+          image_renditions?: Json | null
           image_url?: string | null
+          job_id?: string | null
+          overlap_score?: number | null
           published_at?: string
           slug?: string
+          source_id?: string | null
+          source_url?: string | null
+          summary?: string | null
           title?: string
           updated_at?: string
         }
+        Relationships: [
+          {
+            foreignKeyName: "articles_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "articles_headline_variant_id_fkey"
+            columns: ["headline_variant_id"]
+            isOneToOne: false
+            referencedRelation: "headline_variants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      article_provenance: {
+        Row: {
+          article_id: string
+          attempts: number
+          created_at: string
+          generated_at: string
+          id: string
+          input_tokens: number | null
+          model: string
+          output_tokens: number | null
+          parameters: Json
+          prompt_hash: string | null
+          prompt_id: string | null
+          prompt_version: number | null
+          provider: string
+          task: string
+        }
+        Insert: {
+          article_id: string
+          attempts?: number
+          created_at?: string
+          generated_at: string
+          id?: string
+          input_tokens?: number | null
+          model: string
+          output_tokens?: number | null
+          parameters?: Json
+          prompt_hash?: string | null
+          prompt_id?: string | null
+          prompt_version?: number | null
+          provider: string
+          task: string
+        }
+        Update: {
+          article_id?: string
+          attempts?: number
+          created_at?: string
+          generated_at?: string
+          id?: string
+          input_tokens?: number | null
+          model?: string
+          output_tokens?: number | null
+          parameters?: Json
+          prompt_hash?: string | null
+          prompt_id?: string | null
+          prompt_version?: number | null
+          provider?: string
+          task?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "article_provenance_article_id_fkey"
+            columns: ["article_id"]
+            isOneToOne: false
+            referencedRelation: "articles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      article_tags: {
+        Row: {
+          article_id: string
+          tag_id: string
+        }
+        Insert: {
+          article_id: string
+          tag_id: string
+        }
+        Update: {
+          article_id?: string
+          tag_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "article_tags_article_id_fkey"
+            columns: ["article_id"]
+            isOneToOne: false
+            referencedRelation: "articles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "article_tags_tag_id_fkey"
+            columns: ["tag_id"]
+            isOneToOne: false
+            referencedRelation: "tags"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      categories: {
+        Row: {
+          color: string | null
+          created_at: string
+          description: string
+          id: string
+          name: string
+          position: number
+          slug: string
+        }
+        Insert: {
+          color?: string | null
+          created_at?: string
+          description: string
+          id?: string
+          name: string
+          position?: number
+          slug: string
+        }
+        Update: {
+          color?: string | null
+          created_at?: string
+          description?: string
+          id?: string
+          name?: string
+          position?: number
+          slug?: string
+        }
+        Relationships: []
+      }
+      headline_events: {
+        Row: {
+          client_hash: string
+          created_at: string
+          kind: string
+          variant_id: string
+          visitor_id: string
+        }
+        Insert: {
+          client_hash: string
+          created_at?: string
+          kind: string
+          variant_id: string
+          visitor_id: string
+        }
+        Update: {
+          client_hash?: string
+          created_at?: string
+          kind?: string
+          variant_id?: string
+          visitor_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "headline_events_variant_id_fkey"
+            columns: ["variant_id"]
+            isOneToOne: false
+            referencedRelation: "headline_variants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      headline_variants: {
+        Row: {
+          article_id: string
+          clicks: number
+          created_at: string
+          headline: string
+          id: string
+          impressions: number
+          is_control: boolean
+          served: boolean
+        }
+        Insert: {
+          article_id: string
+          clicks?: number
+          created_at?: string
+          headline: string
+          id?: string
+          impressions?: number
+          is_control?: boolean
+          served?: boolean
+        }
+        Update: {
+          article_id?: string
+          clicks?: number
+          created_at?: string
+          headline?: string
+          id?: string
+          impressions?: number
+          is_control?: boolean
+          served?: boolean
+        }
+        Relationships: [
+          {
+            foreignKeyName: "headline_variants_article_id_fkey"
+            columns: ["article_id"]
+            isOneToOne: false
+            referencedRelation: "articles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      pipeline_jobs: {
+        Row: {
+          article_id: string | null
+          attempts: number
+          category_slug: string | null
+          consistency_report: Json | null
+          consistency_score: number | null
+          content_hash: string | null
+          created_at: string
+          error: string | null
+          headline_variants: Json | null
+          hold_reason: string | null
+          id: string
+          image_alt: string | null
+          image_caption: string | null
+          image_fallback: boolean
+          image_path: string | null
+          image_placeholder: string | null
+          image_prompt: string | null
+          image_renditions: Json | null
+          image_url: string | null
+          last_completed_stage: Database["public"]["Enums"]["pipeline_stage"] | null
+          overlap_report: Json | null
+          overlap_score: number | null
+          provenance: Json | null
+          rewritten_content: string | null
+          rewritten_title: string | null
+          safety_report: Json | null
+          source_content: string | null
+          source_id: string
+          source_title: string
+          source_url: string
+          stage: Database["public"]["Enums"]["pipeline_stage"]
+          summary: string | null
+          tags: Json | null
+          updated_at: string
+        }
+        Insert: {
+          article_id?: string | null
+          attempts?: number
+          category_slug?: string | null
+          consistency_report?: Json | null
+          consistency_score?: number | null
+          content_hash?: string | null
+          created_at?: string
+          error?: string | null
+          headline_variants?: Json | null
+          hold_reason?: string | null
+          id?: string
+          image_alt?: string | null
+          image_caption?: string | null
+          image_fallback?: boolean
+          image_path?: string | null
+          image_placeholder?: string | null
+          image_prompt?: string | null
+          image_renditions?: Json | null
+          image_url?: string | null
+          last_completed_stage?: Database["public"]["Enums"]["pipeline_stage"] | null
+          overlap_report?: Json | null
+          overlap_score?: number | null
+          provenance?: Json | null
+          rewritten_content?: string | null
+          rewritten_title?: string | null
+          safety_report?: Json | null
+          source_content?: string | null
+          source_id: string
+          source_title: string
+          source_url: string
+          stage?: Database["public"]["Enums"]["pipeline_stage"]
+          summary?: string | null
+          tags?: Json | null
+          updated_at?: string
+        }
+        Update: {
+          article_id?: string | null
+          attempts?: number
+          category_slug?: string | null
+          consistency_report?: Json | null
+          consistency_score?: number | null
+          content_hash?: string | null
+          created_at?: string
+          error?: string | null
+          headline_variants?: Json | null
+          hold_reason?: string | null
+          id?: string
+          image_alt?: string | null
+          image_caption?: string | null
+          image_fallback?: boolean
+          image_path?: string | null
+          image_placeholder?: string | null
+          image_prompt?: string | null
+          image_renditions?: Json | null
+          image_url?: string | null
+          last_completed_stage?: Database["public"]["Enums"]["pipeline_stage"] | null
+          overlap_report?: Json | null
+          overlap_score?: number | null
+          provenance?: Json | null
+          rewritten_content?: string | null
+          rewritten_title?: string | null
+          safety_report?: Json | null
+          source_content?: string | null
+          source_id?: string
+          source_title?: string
+          source_url?: string
+          stage?: Database["public"]["Enums"]["pipeline_stage"]
+          summary?: string | null
+          tags?: Json | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "pipeline_jobs_article_id_fkey"
+            columns: ["article_id"]
+            isOneToOne: false
+            referencedRelation: "articles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      pipeline_runs: {
+        Row: {
+          articles: Json
+          created_at: string
+          error: string | null
+          finished_at: string | null
+          id: string
+          source_counts: Json
+          stage_durations: Json
+          started_at: string
+          status: string
+          total_failed: number
+          total_held: number
+          total_processed: number
+          total_skipped: number
+          total_successful: number
+          trigger: string
+        }
+        Insert: {
+          articles?: Json
+          created_at?: string
+          error?: string | null
+          finished_at?: string | null
+          id?: string
+          source_counts?: Json
+          stage_durations?: Json
+          started_at: string
+          status: string
+          total_failed?: number
+          total_held?: number
+          total_processed?: number
+          total_skipped?: number
+          total_successful?: number
+          trigger: string
+        }
+        Update: {
+          articles?: Json
+          created_at?: string
+          error?: string | null
+          finished_at?: string | null
+          id?: string
+          source_counts?: Json
+          stage_durations?: Json
+          started_at?: string
+          status?: string
+          total_failed?: number
+          total_held?: number
+          total_processed?: number
+          total_skipped?: number
+          total_successful?: number
+          trigger?: string
+        }
+        Relationships: []
+      }
+      tags: {
+        Row: {
+          created_at: string
+          id: string
+          kind: string
+          name: string
+          slug: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          kind: string
+          name: string
+          slug: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          kind?: string
+          name?: string
+          slug?: string
+        }
         Relationships: []
       }
     }
@@ -52,13 +504,47 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      decide_headline_test: {
+        Args: { p_article_id: string }
+        Returns: boolean
+      }
       generate_slug: {
         Args: { title: string }
         Returns: string
       }
+      headline_client_hash: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
+      record_headline_click: {
+        Args: { p_visitor_id: string; p_variant_id: string }
+        Returns: undefined
+      }
+      record_headline_event: {
+        Args: { p_visitor_id: string; p_variant_id: string; p_kind: string }
+        Returns: boolean
+      }
+      record_headline_impressions: {
+        Args: { p_visitor_id: string; p_variant_ids: string[] }
+        Returns: undefined
+      }
     }
     Enums: {
-      [_ in never]: never
+      pipeline_stage:
+        | "discovered"
+        | "fetched"
+        | "rewritten"
+        | "titled"
+        | "verified"
+        | "summarized"
+        | "headlined"
+        | "screened"
+        | "classified"
+        | "tagged"
+        | "imaged"
+        | "published"
+        | "failed"
+        | "held"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -185,6 +671,23 @@ export type CompositeTypes<
 
 export const Constants = {
   public: {
-    Enums: {},
+    Enums: {
+      pipeline_stage: [
+        "discovered",
+        "fetched",
+        "rewritten",
+        "titled",
+        "verified",
+        "summarized",
+        "headlined",
+        "screened",
+        "classified",
+        "tagged",
+        "imaged",
+        "published",
+        "failed",
+        "held",
+      ],
+    },
   },
 } as const
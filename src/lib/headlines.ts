@@ -0,0 +1,88 @@
+import { supabase } from "@/integrations/supabase/client";
+
+/**
+ * A headline under test, from `headline_variants`. Only variants still being
+ * served are loaded; once a test is decided the winner is the article title.
+ */
+export interface HeadlineVariant {
+  id: string;
+  headline: string;
+}
+
+const VISITOR_KEY = "autotribune-visitor";
+// Impressions are sent in one call per batch of cards that came into view
+const FLUSH_DELAY_MS = 2000;
+const MAX_BATCH = 100;
+
+let fallbackVisitor: string | undefined;
+
+/**
+ * Random id kept in localStorage so a reader keeps seeing the same variants.
+ * The database counts each variant once per visitor id.
+ */
+function visitorId() {
+  try {
+    let id = localStorage.getItem(VISITOR_KEY);
+    if (!id) {
+      id = crypto.randomUUID();
+      localStorage.setItem(VISITOR_KEY, id);
+    }
+    return id;
+  } catch {
+    // Storage blocked: stable for this page load only
+    fallbackVisitor ??= crypto.randomUUID();
+    return fallbackVisitor;
+  }
+}
+
+/** FNV-1a, enough to spread readers evenly over the variants. */
+function hash(text: string) {
+  let value = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    value ^= text.charCodeAt(i);
+    value = Math.imul(value, 0x01000193);
+  }
+  return value >>> 0;
+}
+
+/**
+ * The variant this reader is shown for an article, or null when the article
+ * has no running test. The choice depends only on the reader and the
+ * article, so it survives reloads and does not change between pages.
+ */
+export function pickVariant(articleId: string, variants?: HeadlineVariant[] | null) {
+  if (!variants?.length) return null;
+  const sorted = [...variants].sort((a, b) => a.id.localeCompare(b.id));
+  return sorted[hash(`${visitorId()}:${articleId}`) % sorted.length];
+}
+
+const pending = new Set<string>();
+const counted = new Set<string>();
+let flushTimer: ReturnType<typeof setTimeout> | undefined;
+
+async function flushImpressions() {
+  clearTimeout(flushTimer);
+  flushTimer = undefined;
+  const ids = [...pending].slice(0, MAX_BATCH);
+  ids.forEach((id) => pending.delete(id));
+  if (pending.size) flushTimer = setTimeout(flushImpressions, 0);
+  if (!ids.length) return;
+
+  const { error } = await supabase.rpc("record_headline_impressions", { p_visitor_id: visitorId(), p_variant_ids: ids });
+  if (error) console.error("Error recording headline impressions:", error);
+}
+
+/** Counts a variant as seen, at most once per page load. */
+export function recordImpression(variantId: string) {
+  if (counted.has(variantId)) return;
+  counted.add(variantId);
+  pending.add(variantId);
+  flushTimer ??= setTimeout(flushImpressions, FLUSH_DELAY_MS);
+}
+
+/** Counts a click, sending any queued impressions first so clicks never outrun them. */
+export async function recordClick(variantId: string) {
+  await flushImpressions();
+  const { error } = await supabase.rpc("record_headline_click", { p_visitor_id: visitorId(), p_variant_id: variantId });
+  if (error) console.error("Error recording headline click:", error);
+}
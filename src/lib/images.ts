@@ -0,0 +1,44 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+
+/**
+ * Public URL of an image stored in the `images` bucket. Articles store the
+ * object path; full URLs (articles published before `image_path`) pass
+ * through unchanged.
+ */
+export function imageSrc(pathOrUrl: string) {
+  if (/^https?:\/\//.test(pathOrUrl)) return pathOrUrl;
+  return supabase.storage.from("images").getPublicUrl(pathOrUrl).data.publicUrl;
+}
+
+/**
+ * Resized copies of an article image written by the pipeline
+ * (ProcessNews/renditions.js) to `articles.image_renditions`, as object paths.
+ */
+export interface ImageRendition {
+  width: number;
+  height: number;
+  avif?: string;
+  webp?: string;
+}
+
+export type ImageRenditions = Partial<Record<"thumb" | "card" | "hero", ImageRendition>>;
+
+export const RENDITION_FORMATS = ["avif", "webp"] as const;
+
+/** Reads the stored JSON, ignoring anything that is not a rendition. */
+export function readRenditions(value: Json | undefined): ImageRendition[] {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return [];
+  return Object.values(value as ImageRenditions)
+    .filter((rendition): rendition is ImageRendition => Boolean(rendition?.width && rendition?.height))
+    .sort((a, b) => a.width - b.width);
+}
+
+/** `srcset` of one format, e.g. "thumb.webp 160w, card.webp 640w". */
+export function buildSrcSet(renditions: ImageRendition[], format: (typeof RENDITION_FORMATS)[number]) {
+  const seen = new Set<number>();
+  return renditions
+    .filter((rendition) => rendition[format] && !seen.has(rendition.width) && seen.add(rendition.width))
+    .map((rendition) => `${imageSrc(rendition[format])} ${rendition.width}w`)
+    .join(", ");
+}
@@ -0,0 +1,118 @@
+/**
+ * Article bodies are stored as a small Markdown subset (see
+ * ProcessNews/markdown.js): paragraphs, `##`/`###` headings, `-` and `1.`
+ * lists, `>` quotes, `**bold**` and `*italic*`. This parses that subset into
+ * blocks for rendering and projects it to plain text for cards and search.
+ */
+
+export type InlineNode =
+  | { type: "text"; text: string }
+  | { type: "strong"; children: InlineNode[] }
+  | { type: "em"; children: InlineNode[] };
+
+export type Block =
+  | { type: "heading"; level: 2 | 3; text: string }
+  | { type: "paragraph"; text: string }
+  | { type: "list"; ordered: boolean; items: string[] }
+  | { type: "quote"; text: string };
+
+const HEADING = /^(#{1,6})\s+(.*?)\s*#*$/;
+const UNORDERED_ITEM = /^[-*+•]\s+(.*)$/;
+const ORDERED_ITEM = /^\d+[.)]\s+(.*)$/;
+const QUOTE = /^>\s?(.*)$/;
+
+export function parseMarkdown(source: string): Block[] {
+  const blocks: Block[] = [];
+  let paragraph: string[] = [];
+  let quote: string[] = [];
+  let list: { ordered: boolean; items: string[] } | null = null;
+
+  const flush = () => {
+    if (paragraph.length) blocks.push({ type: "paragraph", text: paragraph.join(" ") });
+    if (quote.length) blocks.push({ type: "quote", text: quote.join(" ") });
+    if (list) blocks.push({ type: "list", ...list });
+    paragraph = [];
+    quote = [];
+    list = null;
+  };
+
+  for (const rawLine of source.replace(/\r\n?/g, "\n").split("\n")) {
+    const line = rawLine.trim();
+    if (!line) {
+      flush();
+      continue;
+    }
+
+    const heading = line.match(HEADING);
+    if (heading) {
+      flush();
+      blocks.push({ type: "heading", level: heading[1].length <= 2 ? 2 : 3, text: heading[2] });
+      continue;
+    }
+
+    const quoteLine = line.match(QUOTE);
+    if (quoteLine) {
+      if (!quote.length) flush();
+      quote.push(quoteLine[1]);
+      continue;
+    }
+
+    const unordered = line.match(UNORDERED_ITEM);
+    const ordered = !unordered && line.match(ORDERED_ITEM);
+    if (unordered || ordered) {
+      const isOrdered = Boolean(ordered);
+      if (!list || list.ordered !== isOrdered) {
+        flush();
+        list = { ordered: isOrdered, items: [] };
+      }
+      list.items.push((unordered || ordered)[1]);
+      continue;
+    }
+
+    // A line after a list or quote without a blank line continues it
+    if (list) {
+      list.items[list.items.length - 1] += ` ${line}`;
+    } else if (quote.length) {
+      quote.push(line);
+    } else {
+      paragraph.push(line);
+    }
+  }
+
+  flush();
+  return blocks;
+}
+
+export function parseInline(text: string): InlineNode[] {
+  const nodes: InlineNode[] = [];
+  const pattern = /\*\*(.+?)\*\*|__(.+?)__|\*(?!\s)(.+?)\*|_(?!\s)(.+?)_(?!\w)/g;
+  let last = 0;
+
+  for (const match of text.matchAll(pattern)) {
+    if (match.index > last) nodes.push({ type: "text", text: text.slice(last, match.index) });
+    const [, strong, strongAlt, em, emAlt] = match;
+    nodes.push(
+      strong || strongAlt
+        ? { type: "strong", children: parseInline(strong || strongAlt) }
+        : { type: "em", children: parseInline(em || emAlt) }
+    );
+    last = match.index + match[0].length;
+  }
+
+  if (last < text.length) nodes.push({ type: "text", text: text.slice(last) });
+  return nodes;
+}
+
+function inlineText(nodes: InlineNode[]): string {
+  return nodes.map((node) => (node.type === "text" ? node.text : inlineText(node.children))).join("");
+}
+
+/** Plain-text projection: block text without Markdown syntax, joined with spaces. */
+export function toPlainText(source: string): string {
+  return parseMarkdown(source)
+    .flatMap((block) => (block.type === "list" ? block.items : [block.text]))
+    .map((text) => inlineText(parseInline(text)))
+    .join(" ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
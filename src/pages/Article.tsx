@@ -1,19 +1,34 @@
 import { useEffect, useState } from "react";
-import { useParams, useNavigate } from "react-router-dom";
+import { Link, useParams, useNavigate } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
 import { Clock, ArrowLeft, Newspaper, Share } from "lucide-react";
 import { toast } from "@/components/ui/use-toast";
 import { Sidebar } from "@/components/Sidebar";
+import { CategoryNav } from "@/components/CategoryNav";
+import { ArticleBody } from "@/components/ArticleBody";
+import { ResponsiveImage } from "@/components/ResponsiveImage";
+import { usePageMeta } from "@/hooks/use-page-meta";
+import type { Json } from "@/integrations/supabase/types";
 
 interface Article {
   id: string;
   title: string;
   content: string;
+  summary?: string;
+  image_path?: string;
   image_url?: string;
+  image_renditions?: Json;
+  image_fallback?: boolean;
+  image_alt?: string;
+  image_placeholder?: string;
+  image_caption?: string;
   published_at: string;
   slug: string;
+  categories?: { name: string; slug: string } | null;
+  article_tags?: { tags: { name: string; slug: string; kind: string } | null }[];
 }
 
 export default function Article() {
@@ -22,6 +37,7 @@ export default function Article() {
   const [article, setArticle] = useState<Article | null>(null);
   const [loading, setLoading] = useState(true);
   const [relatedArticles, setRelatedArticles] = useState<Article[]>([]);
+  usePageMeta({ title: article?.title, description: article?.summary });
 
   useEffect(() => {
     const fetchArticle = async () => {
@@ -36,7 +52,7 @@ export default function Article() {
       try {
         const { data, error } = await supabase
           .from('articles')
-          .select('*')
+          .select('*, categories(name, slug), article_tags(tags(name, slug, kind))')
           .eq('slug', slug)
           .maybeSingle();
 
@@ -118,24 +134,7 @@ export default function Article() {
   return (
     <div className="min-h-screen bg-background">
       {/* Navigation Header */}
-      <nav className="bg-primary text-primary-foreground">
-        <div className="container mx-auto px-4">
-          <div className="flex items-center justify-between h-12 text-sm">
-            <div className="flex items-center space-x-6">
-              <span>WORLD</span>
-              <span>PROFIT</span>
-              <span>BQ</span>
-              <span>MOVIES</span>
-              <span>CRICKET</span>
-              <span>FOOD</span>
-              <span>LIFESTYLE</span>
-              <span>HEALTH</span>
-              <span>TECH</span>
-              <span>GAMES</span>
-            </div>
-          </div>
-        </div>
-      </nav>
+      <CategoryNav activeSlug={article.categories?.slug} />
 
       {/* Main Header */}
       <header className="border-b border-border bg-card shadow-sm">
@@ -204,25 +203,62 @@ export default function Article() {
                   </Button>
                 </div>
                 
+                {article.categories && (
+                  <Link to={`/category/${article.categories.slug}`}>
+                    <Badge variant="secondary" className="mb-3 uppercase">
+                      {article.categories.name}
+                    </Badge>
+                  </Link>
+                )}
+
                 <h1 className="text-4xl font-bold mb-6 text-foreground leading-tight">
                   {article.title}
                 </h1>
+
+                {article.summary && (
+                  <p className="text-xl text-muted-foreground leading-relaxed mb-6">
+                    {article.summary}
+                  </p>
+                )}
                 
-                {article.image_url && (
-                  <div className="aspect-video w-full overflow-hidden rounded-lg mb-6">
-                    <img 
-                      src={article.image_url} 
-                      alt={article.title}
-                      className="w-full h-full object-cover"
-                    />
-                  </div>
+                {(article.image_path || article.image_url) && (
+                  <figure className="mb-6">
+                    <div className="aspect-video w-full overflow-hidden rounded-lg">
+                      <ResponsiveImage
+                        src={article.image_path || article.image_url}
+                        renditions={article.image_renditions}
+                        placeholder={article.image_placeholder}
+                        alt={article.image_alt || article.title}
+                        sizes="(min-width: 1024px) 66vw, 100vw"
+                        loading="eager"
+                        className="w-full h-full object-cover"
+                      />
+                    </div>
+                    {/* Fallback news cards are not AI illustrations */}
+                    {!article.image_fallback && (
+                      <figcaption className="mt-2 text-sm text-muted-foreground">
+                        <span className="mr-2 text-xs font-semibold uppercase tracking-wide">AI-generated illustration</span>
+                        {article.image_caption}
+                      </figcaption>
+                    )}
+                  </figure>
                 )}
                 
-                <div className="prose prose-lg max-w-none">
-                  <p className="text-foreground leading-relaxed whitespace-pre-wrap text-lg">
-                    {article.content}
-                  </p>
-                </div>
+                <ArticleBody content={article.content} />
+
+                {article.article_tags && article.article_tags.length > 0 && (
+                  <div className="flex flex-wrap gap-2 mt-8 pt-6 border-t border-border">
+                    {article.article_tags
+                      .filter(({ tags }) => tags)
+                      .map(({ tags: tag }) => (
+                        <Link key={tag.slug} to={`/tag/${tag.slug}`}>
+                          <Badge variant="outline" className="hover:bg-muted transition-colors">
+                            {tag.name}
+                          </Badge>
+                        </Link>
+                      ))}
+                  </div>
+                )}
               </CardContent>
             </Card>
           </div>
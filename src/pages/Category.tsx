@@ -0,0 +1,129 @@
+import { useEffect, useState } from "react";
+import { useParams, useNavigate } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { ArticleGrid } from "@/components/ArticleGrid";
+import { CategoryNav } from "@/components/CategoryNav";
+import { useInfiniteArticles } from "@/hooks/use-infinite-articles";
+import { usePageMeta } from "@/hooks/use-page-meta";
+import { Button } from "@/components/ui/button";
+import { ArrowLeft, Newspaper } from "lucide-react";
+import { toast } from "@/components/ui/use-toast";
+
+interface CategoryInfo {
+  id: string;
+  name: string;
+  slug: string;
+  description: string;
+}
+
+export default function Category() {
+  const { slug } = useParams<{ slug: string }>();
+  const navigate = useNavigate();
+  const [category, setCategory] = useState<CategoryInfo | null>(null);
+  const [notFound, setNotFound] = useState(false);
+  const {
+    articles,
+    loading,
+    loadingMore,
+    hasMore,
+    observerRef,
+  } = useInfiniteArticles({ categoryId: category?.id, enabled: Boolean(category) });
+  usePageMeta({ title: category?.name, description: category?.description });
+
+  useEffect(() => {
+    const fetchCategory = async () => {
+      setCategory(null);
+      setNotFound(false);
+
+      const { data, error } = await supabase
+        .from('categories')
+        .select('id, name, slug, description')
+        .eq('slug', slug)
+        .maybeSingle();
+
+      if (error) {
+        console.error('Error fetching category:', error);
+        toast({
+          title: "Error",
+          description: "Failed to load category",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      if (!data) {
+        setNotFound(true);
+        return;
+      }
+
+      setCategory(data);
+    };
+
+    fetchCategory();
+  }, [slug]);
+
+  const handleArticleClick = (articleSlug: string) => {
+    navigate(`/article/${articleSlug}`);
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Navigation Header */}
+      <CategoryNav activeSlug={slug} />
+
+      {/* Main Header */}
+      <header className="border-b border-border bg-card shadow-sm">
+        <div className="container mx-auto px-4 py-4">
+          <div className="flex items-center justify-between">
+            <div
+              className="flex items-center gap-3 cursor-pointer hover:opacity-80 transition-opacity"
+              onClick={() => navigate('/')}
+            >
+              <Newspaper className="w-8 h-8 text-primary" />
+              <h1 className="text-3xl font-bold text-foreground">AutoTribune</h1>
+            </div>
+
+            <Button
+              variant="ghost"
+              onClick={() => navigate('/')}
+            >
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Back to Home
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="container mx-auto px-4 py-6">
+        {notFound ? (
+          <div className="text-center py-12">
+            <Newspaper className="w-16 h-16 text-muted-foreground mx-auto mb-4" />
+            <h2 className="text-xl font-semibold text-foreground mb-2">Category not found</h2>
+            <p className="text-muted-foreground">There is no category called "{slug}".</p>
+          </div>
+        ) : (
+          <>
+            {category && (
+              <div className="mb-6">
+                <h2 className="text-2xl font-bold text-foreground uppercase">{category.name}</h2>
+                <p className="text-muted-foreground">{category.description}</p>
+              </div>
+            )}
+
+            <ArticleGrid
+              articles={articles}
+              loading={loading}
+              loadingMore={loadingMore}
+              hasMore={hasMore}
+              observerRef={observerRef}
+              emptyMessage={`Articles classified as ${category?.name ?? slug} will appear here.`}
+              endMessage={`You've reached the end of ${category?.name ?? slug} articles`}
+              onArticleClick={handleArticleClick}
+            />
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
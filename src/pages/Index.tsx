@@ -1,185 +1,44 @@
-import { useEffect, useState, useCallback, useRef } from "react";
+import { useState } from "react";
 import { useNavigate } from "react-router-dom";
-import { supabase } from "@/integrations/supabase/client";
-import { ArticleCard } from "@/components/ArticleCard";
+import { ArticleCard, ArticleCardSkeleton, type CardArticle } from "@/components/ArticleCard";
 import { Sidebar } from "@/components/Sidebar";
+import { CategoryNav } from "@/components/CategoryNav";
+import { useInfiniteArticles } from "@/hooks/use-infinite-articles";
+import { toPlainText } from "@/lib/markdown";
 import { Button } from "@/components/ui/button";
 import { RefreshCw, Newspaper, Search, Loader2 } from "lucide-react";
 import { Input } from "@/components/ui/input";
-import { toast } from "@/components/ui/use-toast";
-
-interface Article {
-  id: string;
-  title: string;
-  content: string;
-  image_url?: string;
-  published_at: string;
-  slug: string;
-}
-
-const ARTICLES_PER_PAGE = 20;
 
 const Index = () => {
   const navigate = useNavigate();
-  const [articles, setArticles] = useState<Article[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [loadingMore, setLoadingMore] = useState(false);
   const [searchQuery, setSearchQuery] = useState("");
-  const [hasMore, setHasMore] = useState(true);
-  const [page, setPage] = useState(0);
-  const observerRef = useRef<HTMLDivElement>(null);
-  const isLoadingRef = useRef(false);
-
-  const fetchArticles = async (pageNum: number = 0, append: boolean = false) => {
-    if (isLoadingRef.current) return;
-    
-    try {
-      isLoadingRef.current = true;
-      
-      if (!append) setLoading(true);
-      else setLoadingMore(true);
-
-      const from = pageNum * ARTICLES_PER_PAGE;
-      const to = from + ARTICLES_PER_PAGE - 1;
-
-      console.log(`Fetching articles: page ${pageNum}, from ${from} to ${to}`);
-
-      const { data, error, count } = await supabase
-        .from('articles')
-        .select('*', { count: 'exact' })
-        .order('published_at', { ascending: false })
-        .range(from, to);
-
-      if (error) {
-        console.error('Error fetching articles:', error);
-        toast({
-          title: "Error",
-          description: "Failed to load articles",
-          variant: "destructive",
-        });
-        return;
-      }
-
-      const newArticles = data || [];
-      console.log(`Received ${newArticles.length} articles`);
-      
-      if (append) {
-        setArticles(prev => {
-          const existingIds = new Set(prev.map(article => article.id));
-          const uniqueNewArticles = newArticles.filter(article => !existingIds.has(article.id));
-          console.log(`Adding ${uniqueNewArticles.length} unique new articles`);
-          const updated = [...prev, ...uniqueNewArticles];
-          console.log(`Total articles after append: ${updated.length}`);
-          return updated;
-        });
-      } else {
-        setArticles(newArticles);
-        setPage(0);
-      }
-
-      // Fix: Use the current articles length for hasMore calculation
-      setArticles(currentArticles => {
-        const totalLoaded = append ? 
-          currentArticles.length : 
-          newArticles.length;
-        
-        const hasMoreArticles = count ? totalLoaded < count : newArticles.length === ARTICLES_PER_PAGE;
-        setHasMore(hasMoreArticles);
-        
-        console.log(`Has more articles: ${hasMoreArticles}, Total loaded: ${totalLoaded}, Total count: ${count}`);
-        return currentArticles;
-      });
-
-    } catch (error) {
-      console.error('Error:', error);
-      toast({
-        title: "Error",
-        description: "Failed to load articles",
-        variant: "destructive",
-      });
-    } finally {
-      setLoading(false);
-      setLoadingMore(false);
-      isLoadingRef.current = false;
-    }
-  };
-
-  const loadMoreArticles = useCallback(() => {
-    if (
-      isLoadingRef.current || 
-      loadingMore || 
-      !hasMore || 
-      searchQuery || 
-      loading
-    ) {
-      console.log('Skipping loadMore:', { 
-        isLoading: isLoadingRef.current, 
-        loadingMore, 
-        hasMore, 
-        searchQuery: !!searchQuery,
-        loading 
-      });
-      return;
-    }
-
-    const nextPage = page + 1;
-    console.log(`Loading more articles - Next page: ${nextPage}, Current articles: ${articles.length}`);
-    setPage(nextPage);
-    fetchArticles(nextPage, true);
-  }, [loadingMore, hasMore, page, searchQuery, loading, articles.length]);
-
-  // Intersection Observer for infinite scroll
-  useEffect(() => {
-    const observer = new IntersectionObserver(
-      (entries) => {
-        const target = entries[0];
-        if (target.isIntersecting && !searchQuery) {
-          console.log('Intersection triggered - loading more articles');
-          loadMoreArticles();
-        }
-      },
-      {
-        threshold: 0.1,
-        rootMargin: '100px',
-      }
-    );
-
-    if (observerRef.current) {
-      observer.observe(observerRef.current);
-    }
-
-    return () => {
-      if (observerRef.current) {
-        observer.unobserve(observerRef.current);
-      }
-    };
-  }, [loadMoreArticles]);
-
-  useEffect(() => {
-    fetchArticles();
-  }, []);
+  const {
+    articles,
+    loading,
+    loadingMore,
+    hasMore,
+    page,
+    observerRef,
+    refresh,
+  } = useInfiniteArticles({ paused: Boolean(searchQuery) });
 
   const handleArticleClick = (slug: string) => {
     navigate(`/article/${slug}`);
   };
 
   const handleRefresh = () => {
-    setArticles([]);
-    setPage(0);
-    setHasMore(true);
-    isLoadingRef.current = false;
-    fetchArticles();
+    refresh();
   };
 
   const filteredArticles = searchQuery 
     ? articles.filter(article =>
         article.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
-        article.content.toLowerCase().includes(searchQuery.toLowerCase())
+        toPlainText(article.content).toLowerCase().includes(searchQuery.toLowerCase())
       )
     : articles;
 
   // Create dynamic sections with random layouts for all articles
-  const createDynamicSections = (articles: Article[]) => {
+  const createDynamicSections = (articles: CardArticle[]) => {
     const sections = [];
     let currentIndex = 0;
 
@@ -266,57 +125,37 @@ const Index = () => {
           {section.featured && (
             <ArticleCard
               key={section.featured.id}
-              id={section.featured.id}
-              title={section.featured.title}
-              content={section.featured.content}
-              image_url={section.featured.image_url}
-              published_at={section.featured.published_at}
-              slug={section.featured.slug}
+              article={section.featured}
               variant="featured"
               onClick={() => handleArticleClick(section.featured.slug)}
             />
           )}
           
           {/* Medium Articles - Fill remaining space in first row */}
-          {section.medium.slice(0, 2).map((article: Article) => (
+          {section.medium.slice(0, 2).map((article: CardArticle) => (
             <ArticleCard
               key={article.id}
-              id={article.id}
-              title={article.title}
-              content={article.content}
-              image_url={article.image_url}
-              published_at={article.published_at}
-              slug={article.slug}
+              article={article}
               variant="medium"
               onClick={() => handleArticleClick(article.slug)}
             />
           ))}
           
           {/* Large Articles - Take 2 columns each */}
-          {section.large.map((article: Article) => (
+          {section.large.map((article: CardArticle) => (
             <ArticleCard
               key={article.id}
-              id={article.id}
-              title={article.title}
-              content={article.content}
-              image_url={article.image_url}
-              published_at={article.published_at}
-              slug={article.slug}
+              article={article}
               variant="large"
               onClick={() => handleArticleClick(article.slug)}
             />
           ))}
           
           {/* More Medium Articles */}
-          {section.medium.slice(2).map((article: Article) => (
+          {section.medium.slice(2).map((article: CardArticle) => (
             <ArticleCard
               key={article.id}
-              id={article.id}
-              title={article.title}
-              content={article.content}
-              image_url={article.image_url}
-              published_at={article.published_at}
-              slug={article.slug}
+              article={article}
               variant="medium"
               onClick={() => handleArticleClick(article.slug)}
             />
@@ -325,15 +164,10 @@ const Index = () => {
           {/* Small Articles - Full width row */}
           {section.small.length > 0 && (
             <div className="col-span-4 grid grid-cols-2 gap-4">
-              {section.small.map((article: Article) => (
+              {section.small.map((article: CardArticle) => (
                 <ArticleCard
                   key={article.id}
-                  id={article.id}
-                  title={article.title}
-                  content={article.content}
-                  image_url={article.image_url}
-                  published_at={article.published_at}
-                  slug={article.slug}
+                  article={article}
                   variant="small"
                   onClick={() => handleArticleClick(article.slug)}
                 />
@@ -351,57 +185,37 @@ const Index = () => {
           {section.featured && (
             <ArticleCard
               key={section.featured.id}
-              id={section.featured.id}
-              title={section.featured.title}
-              content={section.featured.content}
-              image_url={section.featured.image_url}
-              published_at={section.featured.published_at}
-              slug={section.featured.slug}
+              article={section.featured}
               variant="featured"
               onClick={() => handleArticleClick(section.featured.slug)}
             />
           )}
           
           {/* Medium articles fill remaining space */}
-          {section.medium.slice(0, 2).map((article: Article) => (
+          {section.medium.slice(0, 2).map((article: CardArticle) => (
             <ArticleCard
               key={article.id}
-              id={article.id}
-              title={article.title}
-              content={article.content}
-              image_url={article.image_url}
-              published_at={article.published_at}
-              slug={article.slug}
+              article={article}
               variant="medium"
               onClick={() => handleArticleClick(article.slug)}
             />
           ))}
           
           {/* Large articles */}
-          {section.large.map((article: Article) => (
+          {section.large.map((article: CardArticle) => (
             <ArticleCard
               key={article.id}
-              id={article.id}
-              title={article.title}
-              content={article.content}
-              image_url={article.image_url}
-              published_at={article.published_at}
-              slug={article.slug}
+              article={article}
               variant="large"
               onClick={() => handleArticleClick(article.slug)}
             />
           ))}
           
           {/* Rest of medium articles */}
-          {section.medium.slice(2).map((article: Article) => (
+          {section.medium.slice(2).map((article: CardArticle) => (
             <ArticleCard
               key={article.id}
-              id={article.id}
-              title={article.title}
-              content={article.content}
-              image_url={article.image_url}
-              published_at={article.published_at}
-              slug={article.slug}
+              article={article}
               variant="medium"
               onClick={() => handleArticleClick(article.slug)}
             />
@@ -410,15 +224,10 @@ const Index = () => {
           {/* Small articles */}
           {section.small && section.small.length > 0 && (
             <div className="col-span-4 grid grid-cols-4 gap-4">
-              {section.small.map((article: Article) => (
+              {section.small.map((article: CardArticle) => (
                 <ArticleCard
                   key={article.id}
-                  id={article.id}
-                  title={article.title}
-                  content={article.content}
-                  image_url={article.image_url}
-                  published_at={article.published_at}
-                  slug={article.slug}
+                  article={article}
                   variant="small"
                   onClick={() => handleArticleClick(article.slug)}
                 />
@@ -432,15 +241,10 @@ const Index = () => {
     if (section.type === 'grid') {
       return (
         <div key={sectionKey} className="grid grid-cols-4 gap-4 mb-8">
-          {section.medium.map((article: Article) => (
+          {section.medium.map((article: CardArticle) => (
             <ArticleCard
               key={article.id}
-              id={article.id}
-              title={article.title}
-              content={article.content}
-              image_url={article.image_url}
-              published_at={article.published_at}
-              slug={article.slug}
+              article={article}
               variant="medium"
               onClick={() => handleArticleClick(article.slug)}
             />
@@ -453,15 +257,10 @@ const Index = () => {
       return (
         <div key={sectionKey} className="grid grid-cols-4 gap-4 auto-rows-max mb-8">
           {/* Two large articles side by side */}
-          {section.large.map((article: Article) => (
+          {section.large.map((article: CardArticle) => (
             <ArticleCard
               key={article.id}
-              id={article.id}
-              title={article.title}
-              content={article.content}
-              image_url={article.image_url}
-              published_at={article.published_at}
-              slug={article.slug}
+              article={article}
               variant="large"
               onClick={() => handleArticleClick(article.slug)}
             />
@@ -470,15 +269,10 @@ const Index = () => {
           {/* Small articles fill remaining space */}
           {section.small.length > 0 && (
             <div className="col-span-4 grid grid-cols-3 gap-4">
-              {section.small.map((article: Article) => (
+              {section.small.map((article: CardArticle) => (
                 <ArticleCard
                   key={article.id}
-                  id={article.id}
-                  title={article.title}
-                  content={article.content}
-                  image_url={article.image_url}
-                  published_at={article.published_at}
-                  slug={article.slug}
+                  article={article}
                   variant="small"
                   onClick={() => handleArticleClick(article.slug)}
                 />
@@ -496,27 +290,17 @@ const Index = () => {
           {section.featured && (
             <ArticleCard
               key={section.featured.id}
-              id={section.featured.id}
-              title={section.featured.title}
-              content={section.featured.content}
-              image_url={section.featured.image_url}
-              published_at={section.featured.published_at}
-              slug={section.featured.slug}
+              article={section.featured}
               variant="featured"
               onClick={() => handleArticleClick(section.featured.slug)}
             />
           )}
           
           {/* Medium articles fill around */}
-          {section.medium.map((article: Article, idx: number) => (
+          {section.medium.map((article: CardArticle, idx: number) => (
             <ArticleCard
               key={article.id}
-              id={article.id}
-              title={article.title}
-              content={article.content}
-              image_url={article.image_url}
-              published_at={article.published_at}
-              slug={article.slug}
+              article={article}
               variant={idx < 2 ? "medium" : "small"}
               onClick={() => handleArticleClick(article.slug)}
             />
@@ -528,15 +312,10 @@ const Index = () => {
     if (section.type === 'compact') {
       return (
         <div key={sectionKey} className="grid grid-cols-4 gap-4 mb-8">
-          {section.small.map((article: Article) => (
+          {section.small.map((article: CardArticle) => (
             <ArticleCard
               key={article.id}
-              id={article.id}
-              title={article.title}
-              content={article.content}
-              image_url={article.image_url}
-              published_at={article.published_at}
-              slug={article.slug}
+              article={article}
               variant="small"
               onClick={() => handleArticleClick(article.slug)}
             />
@@ -551,24 +330,7 @@ const Index = () => {
   return (
     <div className="min-h-screen bg-background">
       {/* Navigation Header */}
-      <nav className="bg-primary text-primary-foreground">
-        <div className="container mx-auto px-4">
-          <div className="flex items-center justify-between h-12 text-sm">
-            <div className="flex items-center space-x-6">
-              <span>WORLD</span>
-              <span>PROFIT</span>
-              <span>BQ</span>
-              <span>MOVIES</span>
-              <span>CRICKET</span>
-              <span>FOOD</span>
-              <span>LIFESTYLE</span>
-              <span>HEALTH</span>
-              <span>TECH</span>
-              <span>GAMES</span>
-            </div>
-          </div>
-        </div>
-      </nav>
+      <CategoryNav />
 
       {/* Main Header */}
       <header className="border-b border-border bg-card shadow-sm">
@@ -606,26 +368,28 @@ const Index = () => {
       <main className="container mx-auto px-4 py-6">
         {loading ? (
           <div className="flex gap-6">
+            {/* Same boxes as the 'initial' section, so nothing jumps when it loads */}
             <div className="flex-1">
-              <div className="animate-pulse">
-                <div className="aspect-[16/9] bg-muted rounded-lg mb-4"></div>
-                <div className="h-6 bg-muted rounded w-3/4 mb-2"></div>
-                <div className="h-4 bg-muted rounded w-full mb-1"></div>
-                <div className="h-4 bg-muted rounded w-2/3"></div>
-              </div>
-              
-              <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3 mt-8">
-                {Array.from({ length: 6 }).map((_, i) => (
-                  <div key={i} className="animate-pulse">
-                    <div className="aspect-video bg-muted rounded-lg mb-2"></div>
-                    <div className="h-4 bg-muted rounded w-3/4 mb-1"></div>
-                    <div className="h-3 bg-muted rounded w-1/2"></div>
-                  </div>
+              <div className="grid grid-cols-4 gap-4 auto-rows-max mb-8">
+                <ArticleCardSkeleton variant="featured" />
+                {Array.from({ length: 2 }).map((_, i) => (
+                  <ArticleCardSkeleton key={`medium-${i}`} variant="medium" />
                 ))}
+                {Array.from({ length: 2 }).map((_, i) => (
+                  <ArticleCardSkeleton key={`large-${i}`} variant="large" />
+                ))}
+                {Array.from({ length: 2 }).map((_, i) => (
+                  <ArticleCardSkeleton key={`medium-more-${i}`} variant="medium" />
+                ))}
+                <div className="col-span-4 grid grid-cols-2 gap-4">
+                  {Array.from({ length: 4 }).map((_, i) => (
+                    <ArticleCardSkeleton key={`small-${i}`} variant="small" />
+                  ))}
+                </div>
               </div>
             </div>
             
-            <div className="w-80">
+            <div className="w-80 flex-shrink-0">
               <div className="space-y-4">
                 {Array.from({ length: 5 }).map((_, i) => (
                   <div key={i} className="animate-pulse flex gap-3">
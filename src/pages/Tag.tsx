@@ -0,0 +1,136 @@
+import { useEffect, useState } from "react";
+import { useParams, useNavigate } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { ArticleGrid } from "@/components/ArticleGrid";
+import { CategoryNav } from "@/components/CategoryNav";
+import { useInfiniteArticles } from "@/hooks/use-infinite-articles";
+import { usePageMeta } from "@/hooks/use-page-meta";
+import { Button } from "@/components/ui/button";
+import { ArrowLeft, Newspaper } from "lucide-react";
+import { toast } from "@/components/ui/use-toast";
+
+interface TagInfo {
+  id: string;
+  name: string;
+  slug: string;
+  kind: string;
+}
+
+const KIND_LABELS: Record<string, string> = {
+  person: "Person",
+  organisation: "Organisation",
+  place: "Place",
+  topic: "Topic",
+};
+
+export default function Tag() {
+  const { slug } = useParams<{ slug: string }>();
+  const navigate = useNavigate();
+  const [tag, setTag] = useState<TagInfo | null>(null);
+  const [notFound, setNotFound] = useState(false);
+  const {
+    articles,
+    loading,
+    loadingMore,
+    hasMore,
+    observerRef,
+  } = useInfiniteArticles({ tagId: tag?.id, enabled: Boolean(tag) });
+  usePageMeta({ title: tag?.name, description: tag ? `Every AutoTribune story about ${tag.name}, newest first.` : undefined });
+
+  useEffect(() => {
+    const fetchTag = async () => {
+      setTag(null);
+      setNotFound(false);
+
+      const { data, error } = await supabase
+        .from('tags')
+        .select('id, name, slug, kind')
+        .eq('slug', slug)
+        .maybeSingle();
+
+      if (error) {
+        console.error('Error fetching tag:', error);
+        toast({
+          title: "Error",
+          description: "Failed to load tag",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      if (!data) {
+        setNotFound(true);
+        return;
+      }
+
+      setTag(data);
+    };
+
+    fetchTag();
+  }, [slug]);
+
+  const handleArticleClick = (articleSlug: string) => {
+    navigate(`/article/${articleSlug}`);
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Navigation Header */}
+      <CategoryNav />
+
+      {/* Main Header */}
+      <header className="border-b border-border bg-card shadow-sm">
+        <div className="container mx-auto px-4 py-4">
+          <div className="flex items-center justify-between">
+            <div
+              className="flex items-center gap-3 cursor-pointer hover:opacity-80 transition-opacity"
+              onClick={() => navigate('/')}
+            >
+              <Newspaper className="w-8 h-8 text-primary" />
+              <h1 className="text-3xl font-bold text-foreground">AutoTribune</h1>
+            </div>
+
+            <Button
+              variant="ghost"
+              onClick={() => navigate('/')}
+            >
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Back to Home
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="container mx-auto px-4 py-6">
+        {notFound ? (
+          <div className="text-center py-12">
+            <Newspaper className="w-16 h-16 text-muted-foreground mx-auto mb-4" />
+            <h2 className="text-xl font-semibold text-foreground mb-2">Tag not found</h2>
+            <p className="text-muted-foreground">No article has been tagged "{slug}" yet.</p>
+          </div>
+        ) : (
+          <>
+            {tag && (
+              <div className="mb-6">
+                <p className="text-sm text-muted-foreground uppercase">{KIND_LABELS[tag.kind] ?? tag.kind}</p>
+                <h2 className="text-2xl font-bold text-foreground">{tag.name}</h2>
+              </div>
+            )}
+
+            <ArticleGrid
+              articles={articles}
+              loading={loading}
+              loadingMore={loadingMore}
+              hasMore={hasMore}
+              observerRef={observerRef}
+              emptyMessage={`Articles mentioning ${tag?.name ?? slug} will appear here.`}
+              endMessage={`You've reached the end of articles mentioning ${tag?.name ?? slug}`}
+              onArticleClick={handleArticleClick}
+            />
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -20,7 +20,7 @@ Deno.serve(async (req) => {
 
     // Parse request body
     const body = await req.json()
-    const { title, image_link, text } = body
+    const { title, summary, image_path, image_renditions, image_placeholder, image_fallback, image_alt, image_caption, text, source_id, source_url, content_hash, overlap_score, consistency_score, category, tags, headline_variants, provenance, job_id } = body
 
     // Validate required fields
     if (!title || !text) {
@@ -43,6 +43,41 @@ Deno.serve(async (req) => {
         .trim();
     };
 
+    // The pipeline retries this request after timeouts and server errors, so
+    // a job that already published gets its article back instead of a copy
+    const findJobArticle = async () => {
+      if (!job_id) return null
+      const { data: existing } = await supabase
+        .from('articles')
+        .select()
+        .eq('job_id', job_id)
+        .maybeSingle()
+      return existing
+    }
+    const publishedResponse = (article: unknown, message: string) => new Response(
+      JSON.stringify({ success: true, article, message }),
+      {
+        status: 200,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      }
+    )
+
+    const existing = await findJobArticle()
+    if (existing) {
+      return publishedResponse(existing, 'Article already published')
+    }
+
+    // Unknown or missing category slugs leave the article uncategorised
+    let category_id = null
+    if (category) {
+      const { data: categoryRow } = await supabase
+        .from('categories')
+        .select('id')
+        .eq('slug', category)
+        .maybeSingle()
+      category_id = categoryRow?.id ?? null
+    }
+
     const baseSlug = generateSlug(title);
     const slug = `${baseSlug}-${Date.now()}`;
 
@@ -52,12 +87,33 @@ Deno.serve(async (req) => {
       .insert({
         title,
         content: text,
-        image_url: image_link || null,
+        summary: summary || null,
+        image_path: image_path || null,
+        image_renditions: image_renditions || null,
+        image_placeholder: image_placeholder || null,
+        image_fallback: Boolean(image_fallback),
+        image_alt: image_alt || null,
+        image_caption: image_caption || null,
+        source_id: source_id || null,
+        source_url: source_url || null,
+        content_hash: content_hash || null,
+        overlap_score: overlap_score ?? null,
+        consistency_score: consistency_score ?? null,
+        category_id,
+        job_id: job_id || null,
         slug
       })
       .select()
       .single()
 
+    // Unique violation: a retry of this request is being handled concurrently
+    if (error?.code === '23505') {
+      const raced = await findJobArticle()
+      if (raced) {
+        return publishedResponse(raced, 'Article already published')
+      }
+    }
+
     if (error) {
       console.error('Database error:', error)
       return new Response(
@@ -69,19 +125,83 @@ Deno.serve(async (req) => {
       )
     }
 
-    console.log('Article published successfully:', data)
+    // Tags are best effort: the article is already live, so a failure here
+    // is logged rather than reported as a failed publish.
+    if (Array.isArray(tags) && tags.length) {
+      const rows = tags
+        .filter((tag) => tag?.name && tag?.kind)
+        .map((tag) => ({ name: tag.name, kind: tag.kind, slug: tag.slug || generateSlug(tag.name) }))
 
-    return new Response(
-      JSON.stringify({ 
-        success: true, 
-        article: data,
-        message: 'Article published successfully'
-      }),
-      { 
-        status: 200, 
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      const { error: tagsError } = await supabase
+        .from('tags')
+        .upsert(rows, { onConflict: 'slug', ignoreDuplicates: true })
+
+      const { data: tagRows, error: lookupError } = await supabase
+        .from('tags')
+        .select('id')
+        .in('slug', rows.map((row) => row.slug))
+
+      const { error: linkError } = tagRows?.length
+        ? await supabase
+            .from('article_tags')
+            .insert(tagRows.map((tag) => ({ article_id: data.id, tag_id: tag.id })))
+        : { error: null }
+
+      const tagError = tagsError || lookupError || linkError
+      if (tagError) {
+        console.error('Tagging error:', tagError)
       }
-    )
+    }
+
+    // The published title is the control of the headline test; without
+    // alternatives there is nothing to test
+    const alternatives = Array.isArray(headline_variants)
+      ? headline_variants.filter((headline) => typeof headline === 'string' && headline.trim() && headline !== title)
+      : []
+    if (alternatives.length) {
+      const { error: variantsError } = await supabase
+        .from('headline_variants')
+        .insert([
+          { article_id: data.id, headline: title, is_control: true },
+          ...[...new Set(alternatives)].map((headline) => ({ article_id: data.id, headline })),
+        ])
+
+      if (variantsError) {
+        console.error('Headline variants error:', variantsError)
+      }
+    }
+
+    // Provenance is for auditing only and is best effort like tags
+    if (Array.isArray(provenance) && provenance.length) {
+      const rows = provenance
+        .filter((entry) => entry?.task && entry?.provider && entry?.model)
+        .map((entry) => ({
+          article_id: data.id,
+          task: entry.task,
+          prompt_id: entry.prompt_id ?? null,
+          prompt_version: entry.prompt_version ?? null,
+          prompt_hash: entry.prompt_hash ?? null,
+          provider: entry.provider,
+          model: entry.model,
+          parameters: entry.parameters ?? {},
+          input_tokens: entry.input_tokens ?? null,
+          output_tokens: entry.output_tokens ?? null,
+          attempts: entry.attempts ?? 1,
+          generated_at: entry.generated_at || new Date().toISOString(),
+        }))
+
+      const { error: provenanceError } = await supabase
+        .from('article_provenance')
+        .insert(rows)
+
+      if (provenanceError) {
+        console.error('Provenance error:', provenanceError)
+      }
+    }
+
+    console.log('Article published successfully:', data)
+
+    return publishedResponse(data, 'Article published successfully')
 
   } catch (error) {
     console.error('Error:', error)
@@ -0,0 +1,10 @@
+-- Track where each article came from so the pipeline can skip stories it has already published
+ALTER TABLE public.articles
+ADD COLUMN source_id TEXT,
+ADD COLUMN source_url TEXT,
+ADD COLUMN content_hash TEXT;
+
+-- Lookups by canonical source URL and by source content hash happen before every rewrite.
+-- Not unique: a forced reprocess intentionally publishes a second article for the same source.
+CREATE INDEX idx_articles_source_url ON public.articles(source_url);
+CREATE INDEX idx_articles_content_hash ON public.articles(content_hash);
@@ -0,0 +1,42 @@
+-- Per-article pipeline state so a run can resume from the last completed stage
+CREATE TYPE public.pipeline_stage AS ENUM (
+  'discovered',
+  'fetched',
+  'rewritten',
+  'titled',
+  'imaged',
+  'published',
+  'failed'
+);
+
+CREATE TABLE public.pipeline_jobs (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  source_id TEXT NOT NULL,
+  source_url TEXT NOT NULL,
+  source_title TEXT NOT NULL,
+  stage public.pipeline_stage NOT NULL DEFAULT 'discovered',
+  -- Stage reached before a failure; NULL on a failed job means it is not retried
+  last_completed_stage public.pipeline_stage,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  error TEXT,
+  -- Intermediate outputs, filled in as each stage completes
+  source_content TEXT,
+  content_hash TEXT,
+  rewritten_content TEXT,
+  rewritten_title TEXT,
+  image_url TEXT,
+  article_id UUID REFERENCES public.articles(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Only the pipeline (service role) reads and writes jobs
+ALTER TABLE public.pipeline_jobs ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX idx_pipeline_jobs_source_url ON public.pipeline_jobs(source_url);
+CREATE INDEX idx_pipeline_jobs_stage ON public.pipeline_jobs(stage);
+
+CREATE TRIGGER update_pipeline_jobs_updated_at
+  BEFORE UPDATE ON public.pipeline_jobs
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,25 @@
+-- One row per pipeline run, for history and debugging
+CREATE TABLE public.pipeline_runs (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  trigger TEXT NOT NULL CHECK (trigger IN ('cron', 'manual')),
+  status TEXT NOT NULL CHECK (status IN ('running', 'completed', 'aborted', 'failed')),
+  started_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  finished_at TIMESTAMP WITH TIME ZONE,
+  error TEXT,
+  -- { "<source id>": <candidate items listed> }
+  source_counts JSONB NOT NULL DEFAULT '{}'::jsonb,
+  total_processed INTEGER NOT NULL DEFAULT 0,
+  total_successful INTEGER NOT NULL DEFAULT 0,
+  total_failed INTEGER NOT NULL DEFAULT 0,
+  total_skipped INTEGER NOT NULL DEFAULT 0,
+  -- [{ source_id, source_url, title, job_id, outcome, error, stage_durations }]
+  articles JSONB NOT NULL DEFAULT '[]'::jsonb,
+  -- { "<stage>": { "count": n, "total_ms": n, "avg_ms": n, "max_ms": n } }
+  stage_durations JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Only the pipeline (service role) reads and writes runs
+ALTER TABLE public.pipeline_runs ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX idx_pipeline_runs_started_at ON public.pipeline_runs(started_at DESC);
@@ -0,0 +1,16 @@
+-- Factual-consistency check between the source text and the rewrite
+ALTER TYPE public.pipeline_stage ADD VALUE IF NOT EXISTS 'verified' AFTER 'titled';
+-- Finished but kept back for review instead of being published
+ALTER TYPE public.pipeline_stage ADD VALUE IF NOT EXISTS 'held' AFTER 'published';
+
+ALTER TABLE public.pipeline_jobs
+  ADD COLUMN consistency_score NUMERIC(4,3),
+  -- { score, sourceFacts, rewriteFacts, missing: [...], added: [...], changed: [...] }
+  ADD COLUMN consistency_report JSONB,
+  ADD COLUMN hold_reason TEXT;
+
+ALTER TABLE public.articles
+  ADD COLUMN consistency_score NUMERIC(4,3);
+
+ALTER TABLE public.pipeline_runs
+  ADD COLUMN total_held INTEGER NOT NULL DEFAULT 0;
@@ -0,0 +1,8 @@
+-- Verbatim-overlap gate: share of the rewrite's 5-word n-grams found in the source
+ALTER TABLE public.pipeline_jobs
+  ADD COLUMN overlap_score NUMERIC(4,3),
+  -- { body: { share, longestRun, copied }, title: { share, longestRun, copied } }
+  ADD COLUMN overlap_report JSONB;
+
+ALTER TABLE public.articles
+  ADD COLUMN overlap_score NUMERIC(4,3);
@@ -0,0 +1,41 @@
+-- Article categories, shown in the navigation bar and assigned by the pipeline
+CREATE TABLE public.categories (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  slug TEXT NOT NULL UNIQUE,
+  name TEXT NOT NULL,
+  -- Tells the classifier what belongs in the category
+  description TEXT NOT NULL,
+  -- Order in the navigation bar
+  position INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.categories ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Categories are publicly readable"
+ON public.categories
+FOR SELECT
+USING (true);
+
+-- Keep in sync with DEFAULT_CATEGORIES in ProcessNews/categories.js
+INSERT INTO public.categories (slug, name, description, position) VALUES
+  ('world', 'World', 'Politics, government, courts, crime, society and international affairs in India and abroad', 1),
+  ('profit', 'Profit', 'Economy, markets, banking, taxes, prices and personal finance', 2),
+  ('bq', 'BQ', 'Companies, startups, deals, earnings and industry', 3),
+  ('movies', 'Movies', 'Films, streaming, television, music and celebrities', 4),
+  ('cricket', 'Cricket', 'Cricket matches, players, teams and tournaments', 5),
+  ('food', 'Food', 'Food, recipes, restaurants and drinks', 6),
+  ('lifestyle', 'Lifestyle', 'Fashion, travel, relationships, culture, festivals and viral stories', 7),
+  ('health', 'Health', 'Health, medicine, diseases, fitness and wellbeing', 8),
+  ('tech', 'Tech', 'Technology, gadgets, apps, the internet, science and space', 9),
+  ('games', 'Games', 'Video games, esports and sports other than cricket', 10);
+
+ALTER TABLE public.articles
+  ADD COLUMN category_id UUID REFERENCES public.categories(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_articles_category_published_at ON public.articles(category_id, published_at DESC);
+
+ALTER TABLE public.pipeline_jobs
+  ADD COLUMN category_slug TEXT;
+
+ALTER TYPE public.pipeline_stage ADD VALUE IF NOT EXISTS 'classified' AFTER 'verified';
@@ -0,0 +1,46 @@
+-- People, organisations, places and topics extracted from each article
+CREATE TABLE public.tags (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  slug TEXT NOT NULL UNIQUE,
+  name TEXT NOT NULL,
+  kind TEXT NOT NULL CHECK (kind IN ('person', 'organisation', 'place', 'topic')),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.article_tags (
+  article_id UUID NOT NULL REFERENCES public.articles(id) ON DELETE CASCADE,
+  tag_id UUID NOT NULL REFERENCES public.tags(id) ON DELETE CASCADE,
+  PRIMARY KEY (article_id, tag_id)
+);
+
+CREATE INDEX idx_article_tags_tag_id ON public.article_tags(tag_id);
+
+ALTER TABLE public.tags ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.article_tags ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Tags are publicly readable"
+ON public.tags
+FOR SELECT
+USING (true);
+
+-- Same access as articles: the publish-article function inserts with the anon key
+CREATE POLICY "Anyone can insert tags"
+ON public.tags
+FOR INSERT
+WITH CHECK (true);
+
+CREATE POLICY "Article tags are publicly readable"
+ON public.article_tags
+FOR SELECT
+USING (true);
+
+CREATE POLICY "Anyone can insert article tags"
+ON public.article_tags
+FOR INSERT
+WITH CHECK (true);
+
+ALTER TABLE public.pipeline_jobs
+  -- [{ name, slug, kind }]
+  ADD COLUMN tags JSONB;
+
+ALTER TYPE public.pipeline_stage ADD VALUE IF NOT EXISTS 'tagged' AFTER 'classified';
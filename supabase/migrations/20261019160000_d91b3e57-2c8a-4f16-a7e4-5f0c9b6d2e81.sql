@@ -0,0 +1,8 @@
+-- One or two sentence summary (dek) shown in cards, hover text and meta descriptions
+ALTER TABLE public.articles
+  ADD COLUMN summary TEXT;
+
+ALTER TABLE public.pipeline_jobs
+  ADD COLUMN summary TEXT;
+
+ALTER TYPE public.pipeline_stage ADD VALUE IF NOT EXISTS 'summarized' AFTER 'verified';
@@ -0,0 +1,25 @@
+-- Accent colour of each category, used on locally rendered fallback images
+ALTER TABLE public.categories
+  ADD COLUMN color TEXT;
+
+-- Keep in sync with DEFAULT_CATEGORIES in ProcessNews/categories.js
+UPDATE public.categories SET color = CASE slug
+  WHEN 'world' THEN '#dc2626'
+  WHEN 'profit' THEN '#16a34a'
+  WHEN 'bq' THEN '#0d9488'
+  WHEN 'movies' THEN '#c026d3'
+  WHEN 'cricket' THEN '#2563eb'
+  WHEN 'food' THEN '#ea580c'
+  WHEN 'lifestyle' THEN '#db2777'
+  WHEN 'health' THEN '#059669'
+  WHEN 'tech' THEN '#7c3aed'
+  WHEN 'games' THEN '#ca8a04'
+END;
+
+-- Set when the image provider failed and the article was published with a
+-- generated news card, so the image can be regenerated later
+ALTER TABLE public.articles
+  ADD COLUMN image_fallback BOOLEAN NOT NULL DEFAULT false;
+
+ALTER TABLE public.pipeline_jobs
+  ADD COLUMN image_fallback BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,7 @@
+-- Resized AVIF/WebP copies of the article image, keyed by rendition:
+-- { "thumb": { "width": 160, "height": 120, "avif": "<url>", "webp": "<url>" }, "card": ..., "hero": ... }
+ALTER TABLE public.articles
+  ADD COLUMN image_renditions JSONB;
+
+ALTER TABLE public.pipeline_jobs
+  ADD COLUMN image_renditions JSONB;
@@ -0,0 +1,53 @@
+-- Articles store the storage object path of their image instead of a signed
+-- URL. Images are served from the public `images` bucket at
+-- <SUPABASE_URL>/storage/v1/object/public/images/<path>, which stays valid
+-- when the signing key is rotated and can be cached.
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('images', 'images', true)
+ON CONFLICT (id) DO UPDATE SET public = true;
+
+ALTER TABLE public.articles
+  ADD COLUMN image_path TEXT;
+
+ALTER TABLE public.pipeline_jobs
+  ADD COLUMN image_path TEXT;
+
+-- Object path of a signed `images` URL, or NULL for any other URL
+CREATE FUNCTION pg_temp.images_object_path(url TEXT) RETURNS TEXT
+LANGUAGE sql IMMUTABLE AS $$
+  SELECT (regexp_match(url, '/storage/v1/object/sign/images/([^?#]+)'))[1]
+$$;
+
+-- Renditions keep their shape, with each format URL replaced by its path
+CREATE FUNCTION pg_temp.renditions_to_paths(renditions JSONB) RETURNS JSONB
+LANGUAGE sql IMMUTABLE AS $$
+  SELECT jsonb_object_agg(
+    name,
+    rendition
+      || jsonb_strip_nulls(jsonb_build_object(
+        'avif', COALESCE(pg_temp.images_object_path(rendition->>'avif'), rendition->>'avif'),
+        'webp', COALESCE(pg_temp.images_object_path(rendition->>'webp'), rendition->>'webp')
+      ))
+  )
+  FROM jsonb_each(renditions) AS r(name, rendition)
+$$;
+
+UPDATE public.articles
+SET image_path = pg_temp.images_object_path(image_url),
+    image_url = NULL
+WHERE pg_temp.images_object_path(image_url) IS NOT NULL;
+
+UPDATE public.articles
+SET image_renditions = pg_temp.renditions_to_paths(image_renditions)
+WHERE image_renditions IS NOT NULL;
+
+UPDATE public.pipeline_jobs
+SET image_path = pg_temp.images_object_path(image_url),
+    image_url = NULL
+WHERE pg_temp.images_object_path(image_url) IS NOT NULL;
+
+UPDATE public.pipeline_jobs
+SET image_renditions = pg_temp.renditions_to_paths(image_renditions)
+WHERE image_renditions IS NOT NULL;
+
+COMMENT ON COLUMN public.articles.image_url IS 'Legacy: full image URL of articles published before image_path';
@@ -0,0 +1,9 @@
+-- Describes the article image for screen readers and under the hero image.
+-- Written alongside the image prompt; older articles fall back to the title.
+ALTER TABLE public.articles
+  ADD COLUMN image_alt TEXT,
+  ADD COLUMN image_caption TEXT;
+
+ALTER TABLE public.pipeline_jobs
+  ADD COLUMN image_alt TEXT,
+  ADD COLUMN image_caption TEXT;
@@ -0,0 +1,6 @@
+-- Tiny WebP data URL of the article image, shown until the image has decoded
+ALTER TABLE public.articles
+  ADD COLUMN image_placeholder TEXT;
+
+ALTER TABLE public.pipeline_jobs
+  ADD COLUMN image_placeholder TEXT;
@@ -0,0 +1,39 @@
+-- Which prompt template and model produced each AI output of an article, so
+-- quality regressions can be traced to a prompt or model change and the
+-- affected articles reprocessed. One row per task (rewrite, title, summary,
+-- category, tags, illustration, image).
+CREATE TABLE public.article_provenance (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  article_id UUID NOT NULL REFERENCES public.articles(id) ON DELETE CASCADE,
+  task TEXT NOT NULL,
+  -- Template file name, its version from the pipeline config and a hash of its text
+  prompt_id TEXT,
+  prompt_version INTEGER,
+  prompt_hash TEXT,
+  provider TEXT NOT NULL,
+  model TEXT NOT NULL,
+  -- Generation settings sent with the request, e.g. { "temperature": 0.7 }
+  parameters JSONB NOT NULL DEFAULT '{}'::jsonb,
+  -- NULL when the provider does not report usage
+  input_tokens INTEGER,
+  output_tokens INTEGER,
+  generated_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (article_id, task)
+);
+
+CREATE INDEX idx_article_provenance_prompt ON public.article_provenance(prompt_id, prompt_version);
+CREATE INDEX idx_article_provenance_model ON public.article_provenance(model);
+
+ALTER TABLE public.article_provenance ENABLE ROW LEVEL SECURITY;
+
+-- Written by the publish-article function with the anon key; only the
+-- service role reads it
+CREATE POLICY "Anyone can insert article provenance"
+ON public.article_provenance
+FOR INSERT
+WITH CHECK (true);
+
+ALTER TABLE public.pipeline_jobs
+  -- { "<task>": { prompt_id, prompt_version, prompt_hash, provider, model, parameters, input_tokens, output_tokens, generated_at } }
+  ADD COLUMN provenance JSONB;
@@ -0,0 +1,153 @@
+-- Headline A/B test: every new article is published with its pipeline
+-- headline (the control) and a few alternatives. The home page shows each
+-- reader one of them and counts impressions and clicks per variant; once one
+-- clearly wins, it becomes the article's title and the test stops.
+CREATE TABLE public.headline_variants (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  article_id UUID NOT NULL REFERENCES public.articles(id) ON DELETE CASCADE,
+  headline TEXT NOT NULL,
+  -- The headline the article was published with
+  is_control BOOLEAN NOT NULL DEFAULT false,
+  -- Shown to readers while the test runs; cleared on every variant once it is decided
+  served BOOLEAN NOT NULL DEFAULT true,
+  impressions INTEGER NOT NULL DEFAULT 0,
+  clicks INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (article_id, headline)
+);
+
+CREATE INDEX idx_headline_variants_article_id ON public.headline_variants(article_id);
+
+ALTER TABLE public.articles
+  -- The variant promoted to `title`, and when
+  ADD COLUMN headline_variant_id UUID REFERENCES public.headline_variants(id) ON DELETE SET NULL,
+  ADD COLUMN headline_decided_at TIMESTAMP WITH TIME ZONE;
+
+ALTER TABLE public.headline_variants ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Headline variants are publicly readable"
+ON public.headline_variants
+FOR SELECT
+USING (true);
+
+-- Same access as article tags: the publish-article function inserts with the anon key
+CREATE POLICY "Anyone can insert headline variants"
+ON public.headline_variants
+FOR INSERT
+WITH CHECK (true);
+
+-- Promotes the leading variant once its click-through rate beats the
+-- runner-up's in a two-proportion z-test at 99% confidence, with at least
+-- 200 impressions on every variant. The strict level and the minimum sample
+-- keep false winners rare even though the test is re-checked after every
+-- count. Returns true when the test was decided.
+CREATE OR REPLACE FUNCTION public.decide_headline_test(p_article_id UUID)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  min_impressions CONSTANT INTEGER := 200;
+  critical_z CONSTANT DOUBLE PRECISION := 2.576;
+  leader RECORD;
+  runner_up RECORD;
+  pooled DOUBLE PRECISION;
+  standard_error DOUBLE PRECISION;
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM headline_variants
+    WHERE article_id = p_article_id AND served AND impressions < min_impressions
+  ) THEN
+    RETURN false;
+  END IF;
+
+  SELECT id, headline, impressions, clicks, clicks::DOUBLE PRECISION / impressions AS rate
+  INTO leader
+  FROM headline_variants
+  WHERE article_id = p_article_id AND served
+  ORDER BY rate DESC, is_control DESC
+  LIMIT 1;
+
+  SELECT id, impressions, clicks, clicks::DOUBLE PRECISION / impressions AS rate
+  INTO runner_up
+  FROM headline_variants
+  WHERE article_id = p_article_id AND served AND id <> leader.id
+  ORDER BY rate DESC
+  LIMIT 1;
+
+  IF leader.id IS NULL OR runner_up.id IS NULL THEN
+    RETURN false;
+  END IF;
+
+  pooled := (leader.clicks + runner_up.clicks)::DOUBLE PRECISION / (leader.impressions + runner_up.impressions);
+  standard_error := sqrt(pooled * (1 - pooled) * (1.0 / leader.impressions + 1.0 / runner_up.impressions));
+  IF standard_error = 0 OR (leader.rate - runner_up.rate) / standard_error < critical_z THEN
+    RETURN false;
+  END IF;
+
+  UPDATE headline_variants SET served = false WHERE article_id = p_article_id;
+  UPDATE articles
+  SET title = leader.headline, headline_variant_id = leader.id, headline_decided_at = now()
+  WHERE id = p_article_id;
+  RETURN true;
+END;
+$$;
+
+-- Readers cannot update the table; the site counts through these functions,
+-- which only touch variants that are still being served.
+CREATE OR REPLACE FUNCTION public.record_headline_impressions(variant_ids UUID[])
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  tested UUID;
+BEGIN
+  IF coalesce(array_length(variant_ids, 1), 0) > 100 THEN
+    RAISE EXCEPTION 'At most 100 impressions per call';
+  END IF;
+
+  UPDATE headline_variants
+  SET impressions = impressions + 1
+  WHERE id = ANY (variant_ids) AND served;
+
+  FOR tested IN
+    SELECT DISTINCT article_id FROM headline_variants WHERE id = ANY (variant_ids) AND served
+  LOOP
+    PERFORM decide_headline_test(tested);
+  END LOOP;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.record_headline_click(variant_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  tested UUID;
+BEGIN
+  UPDATE headline_variants
+  SET clicks = clicks + 1
+  WHERE id = variant_id AND served
+  RETURNING article_id INTO tested;
+
+  IF tested IS NOT NULL THEN
+    PERFORM decide_headline_test(tested);
+  END IF;
+END;
+$$;
+
+-- Only the counting functions decide tests
+REVOKE EXECUTE ON FUNCTION public.decide_headline_test(UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.record_headline_impressions(UUID[]) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.record_headline_click(UUID) TO anon, authenticated;
+
+ALTER TABLE public.pipeline_jobs
+  -- Alternative headlines, without the control: ["...", "..."]
+  ADD COLUMN headline_variants JSONB;
+
+ALTER TYPE public.pipeline_stage ADD VALUE IF NOT EXISTS 'headlined' AFTER 'summarized';
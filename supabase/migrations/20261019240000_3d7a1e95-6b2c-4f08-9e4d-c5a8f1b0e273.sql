@@ -0,0 +1,13 @@
+-- Safety screen: the article text and the image prompt are scored for
+-- graphic violence, self-harm, sexual and hateful content before anything is
+-- drawn or published. Flagged articles are held for review with the reason in
+-- hold_reason.
+ALTER TABLE public.pipeline_jobs
+  -- Scores per category for the text and the image prompt:
+  -- { "text": { "scores": {...}, "reason": "...", "flags": [...] }, "image": {...} }
+  ADD COLUMN safety_report JSONB,
+  -- What the image model is asked to draw, as screened; null when a flagged
+  -- prompt was published with --force and the article got the news card
+  ADD COLUMN image_prompt TEXT;
+
+ALTER TYPE public.pipeline_stage ADD VALUE IF NOT EXISTS 'screened' AFTER 'headlined';
@@ -0,0 +1,8 @@
+-- The pipeline job that published each article. publish-article is retried
+-- on timeouts and server errors, so it must not insert a second article when
+-- the first request got through; the job id is its idempotency key.
+-- source_url and content_hash stay non-unique, since --force republishes.
+ALTER TABLE public.articles
+  ADD COLUMN job_id UUID;
+
+CREATE UNIQUE INDEX idx_articles_job_id ON public.articles(job_id);
@@ -0,0 +1,136 @@
+-- Headline test counts could be inflated by anyone with the anon key, and a
+-- forced winner permanently rewrites the article title. Counts now come from
+-- a visitor id (kept in the reader's localStorage) and are deduplicated: one
+-- impression and one click per visitor per variant, a click only after that
+-- visitor's impression, and per network address at most a handful of counts
+-- per variant and a fixed number per hour.
+CREATE TABLE public.headline_events (
+  variant_id UUID NOT NULL REFERENCES public.headline_variants(id) ON DELETE CASCADE,
+  visitor_id UUID NOT NULL,
+  kind TEXT NOT NULL CHECK (kind IN ('impression', 'click')),
+  -- md5 of the caller's address, never the address itself
+  client_hash TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (variant_id, visitor_id, kind)
+);
+
+CREATE INDEX idx_headline_events_client ON public.headline_events(client_hash, created_at);
+CREATE INDEX idx_headline_events_variant_client ON public.headline_events(variant_id, client_hash, kind);
+
+-- No policies: only the counting functions below read or write it
+ALTER TABLE public.headline_events ENABLE ROW LEVEL SECURITY;
+
+-- The first address in X-Forwarded-For, as set by the API gateway
+CREATE OR REPLACE FUNCTION public.headline_client_hash()
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT md5(trim(split_part(
+    coalesce(current_setting('request.headers', true)::json ->> 'x-forwarded-for', ''), ',', 1
+  )));
+$$;
+
+-- Records one event and returns true if it counts: the variant is still
+-- served, the visitor has not sent it before and the address is under its
+-- caps.
+CREATE OR REPLACE FUNCTION public.record_headline_event(p_visitor_id UUID, p_variant_id UUID, p_kind TEXT)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  max_per_client_per_variant CONSTANT INTEGER := 10;
+  max_per_client_per_hour CONSTANT INTEGER := 1000;
+  caller CONSTANT TEXT := headline_client_hash();
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM headline_variants WHERE id = p_variant_id AND served) THEN
+    RETURN false;
+  END IF;
+
+  IF (
+    SELECT count(*) FROM headline_events
+    WHERE variant_id = p_variant_id AND client_hash = caller AND kind = p_kind
+  ) >= max_per_client_per_variant OR (
+    SELECT count(*) FROM headline_events
+    WHERE client_hash = caller AND created_at > now() - interval '1 hour'
+  ) >= max_per_client_per_hour THEN
+    RETURN false;
+  END IF;
+
+  INSERT INTO headline_events (variant_id, visitor_id, kind, client_hash)
+  VALUES (p_variant_id, p_visitor_id, p_kind, caller)
+  ON CONFLICT DO NOTHING;
+  RETURN FOUND;
+END;
+$$;
+
+DROP FUNCTION public.record_headline_impressions(UUID[]);
+DROP FUNCTION public.record_headline_click(UUID);
+
+CREATE OR REPLACE FUNCTION public.record_headline_impressions(p_visitor_id UUID, p_variant_ids UUID[])
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  variant UUID;
+  tested UUID;
+BEGIN
+  IF coalesce(array_length(p_variant_ids, 1), 0) > 100 THEN
+    RAISE EXCEPTION 'At most 100 impressions per call';
+  END IF;
+
+  FOREACH variant IN ARRAY coalesce(p_variant_ids, '{}')
+  LOOP
+    IF record_headline_event(p_visitor_id, variant, 'impression') THEN
+      UPDATE headline_variants SET impressions = impressions + 1 WHERE id = variant;
+    END IF;
+  END LOOP;
+
+  FOR tested IN
+    SELECT DISTINCT article_id FROM headline_variants WHERE id = ANY (p_variant_ids) AND served
+  LOOP
+    PERFORM decide_headline_test(tested);
+  END LOOP;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.record_headline_click(p_visitor_id UUID, p_variant_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  tested UUID;
+BEGIN
+  -- A click without this visitor's impression of the variant is not counted
+  IF NOT EXISTS (
+    SELECT 1 FROM headline_events
+    WHERE variant_id = p_variant_id AND visitor_id = p_visitor_id AND kind = 'impression'
+  ) THEN
+    RETURN;
+  END IF;
+  IF NOT record_headline_event(p_visitor_id, p_variant_id, 'click') THEN
+    RETURN;
+  END IF;
+
+  UPDATE headline_variants
+  SET clicks = clicks + 1
+  WHERE id = p_variant_id
+  RETURNING article_id INTO tested;
+
+  IF tested IS NOT NULL THEN
+    PERFORM decide_headline_test(tested);
+  END IF;
+END;
+$$;
+
+-- Only the counting functions record events
+REVOKE EXECUTE ON FUNCTION public.record_headline_event(UUID, UUID, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.headline_client_hash() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.record_headline_impressions(UUID, UUID[]) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.record_headline_click(UUID, UUID) TO anon, authenticated;
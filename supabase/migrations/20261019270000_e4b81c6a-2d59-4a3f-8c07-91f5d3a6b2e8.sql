@@ -0,0 +1,5 @@
+-- Retried tasks (style and overlap re-prompts) used to record only their
+-- last call. input_tokens / output_tokens are now summed over every attempt,
+-- and the number of attempts is kept alongside.
+ALTER TABLE public.article_provenance
+  ADD COLUMN attempts INTEGER NOT NULL DEFAULT 1;